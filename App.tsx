@@ -1,4 +1,4 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { 
   CircuitNode, 
   Wire, 
@@ -7,17 +7,103 @@ import {
   InteractionState, 
   GateType,
   Position,
-  ProjectData
+  ProjectData,
+  ProjectSummary,
+  ComponentDefinition,
+  TestVector,
+  WireCurveType
 } from './types';
 import { COMPONENT_CONFIGS, COLORS, PIN_SPACING } from './constants';
-import { renderCircuit, screenToWorld, worldToScreen, checkWireHit } from './services/renderer';
-import { propagateCircuit } from './services/circuitEngine';
-import { generateCircuitFromTruthTable } from './services/quineMcCluskey';
+import { 
+  renderCircuit, 
+  screenToWorld, 
+  worldToScreen, 
+  checkWireHit, 
+  checkWaypointHit,
+  getInputPinPosition, 
+  getOutputPinPosition, 
+  getOutputCount 
+} from './services/renderer';
+import { getWireLayout, createWireLayoutCache, pointOnWire, wireParameterAt, insertWaypoint, snapWaypoint, relinkWireCopies } from './services/wireRouter';
+import { propagateCircuit, getNodeDelay, resetSequentialState, CircuitSimulation } from './services/circuitEngine';
+import {
+  ClockSettings,
+  getClockSettings,
+  advanceClocks,
+  applyClockLevels,
+  MIN_CLOCK_FREQUENCY,
+  MAX_CLOCK_FREQUENCY,
+  MIN_DUTY_CYCLE,
+  MAX_DUTY_CYCLE
+} from './services/clocks';
+import { diagnoseCircuit } from './services/diagnostics';
+import { 
+  createHistory, 
+  recordSnapshot, 
+  undoSnapshot, 
+  redoSnapshot, 
+  keepSimulationState, 
+  HistorySnapshot 
+} from './services/history';
+import { createClipboardFragment, parseClipboardFragment, instantiateFragment } from './services/clipboard';
+import { 
+  listProjects, 
+  loadProject, 
+  saveProject, 
+  deleteProject, 
+  renameProject, 
+  duplicateProject, 
+  getLastProjectId, 
+  setLastProjectId, 
+  createStoredProject 
+} from './services/projectStore';
+import { normalizeProject, readProject, PROJECT_VERSION } from './services/projectFormat';
+import { 
+  createComponentDefinition, 
+  updateComponentDefinition, 
+  createSubcircuitNode, 
+  refreshInstances, 
+  refreshProjectInstances, 
+  pruneDanglingWires, 
+  componentDependsOn 
+} from './services/subcircuits';
+import { 
+  getBitWidth, 
+  setNodeBitWidth, 
+  pruneMismatchedWires, 
+  getInputPinWidth, 
+  getOutputPinWidth, 
+  MAX_BIT_WIDTH 
+} from './services/buses';
+import { generateCircuitFromTruthTable, generateCircuitFromTerms, minimiseSumOfProducts, TruthValue, SynthesisForm } from './services/quineMcCluskey';
+import { exportVerilog } from './services/verilog';
+import { importNetlist, detectNetlistLanguage, generateCircuitFromExpression } from './services/netlistImport';
+import { LogicExpression, expressionTruthTable } from './services/booleanExpression';
+import { analyseCircuit, CircuitAnalysis } from './services/circuitAnalysis';
+import { getTestLabels, parseTestVectorCsv, runTestVectors, TestReport } from './services/testVectors';
+import { generateId } from './services/ids';
+import { WaveformCapture, ProbeReadings, createCapture, addProbe, removeProbe, clearSamples, recordSamples, readProbes } from './services/waveforms';
 import Toolbar from './components/Toolbar';
 import { ContextMenu } from './components/ContextMenu';
 import { KarnaughModal } from './components/KarnaughModal';
-
-const generateId = () => Math.random().toString(36).substr(2, 9);
+import { ExpressionModal } from './components/ExpressionModal';
+import { AnalysisModal } from './components/AnalysisModal';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { WaveformPanel } from './components/WaveformPanel';
+import { SimulationControls } from './components/SimulationControls';
+import { TestVectorPanel } from './components/TestVectorPanel';
+
+const AUTOSAVE_DELAY = 1000; // ms of quiet before an edit is written to IndexedDB
+const SIMULATION_TICK_MS = 20; // Real time between updates while the simulation runs
+const MAX_EDGES_PER_TICK = 500; // Clock edges simulated per update before the simulation falls behind
+
+// Circuit level we drilled down from while editing a component
+interface EditFrame {
+  componentId: string;
+  nodes: CircuitNode[];
+  wires: Wire[];
+  camera: Camera;
+}
 
 const App: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -31,6 +117,47 @@ const App: React.FC = () => {
   const [selectedWireIds, setSelectedWireIds] = useState<string[]>([]);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; nodeId: string } | null>(null);
   const [isKarnaughOpen, setIsKarnaughOpen] = useState(false);
+  const [isExpressionOpen, setIsExpressionOpen] = useState(false);
+  const [analysis, setAnalysis] = useState<CircuitAnalysis | null>(null);
+  const [isAnalyzerOpen, setIsAnalyzerOpen] = useState(false);
+  const [capture, setCapture] = useState<WaveformCapture>(createCapture);
+  const [isRunning, setIsRunning] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [simTime, setSimTime] = useState(0); // Seconds of simulated time, shown in the transport bar
+  const [testVectors, setTestVectors] = useState<TestVector[]>([]);
+  const [testReport, setTestReport] = useState<TestReport | null>(null);
+  const [selectedTestRow, setSelectedTestRow] = useState<number | null>(null);
+  const [isTestPanelOpen, setIsTestPanelOpen] = useState(false);
+  const [wireStyle, setWireStyle] = useState<WireCurveType>('routed'); // Style of newly drawn wires
+  const [unstableNodeIds, setUnstableNodeIds] = useState<string[]>([]);
+  const [contentionWireIds, setContentionWireIds] = useState<string[]>([]);
+  const [components, setComponents] = useState<ComponentDefinition[]>([]);
+  const [editStack, setEditStack] = useState<EditFrame[]>([]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0); // Bumped by every edit, drives the autosave
+
+  // Feedback loops are structural, oscillation and contention come from the last propagation
+  const diagnostics = useMemo(
+    () => diagnoseCircuit(nodes, wires, unstableNodeIds, contentionWireIds),
+    [nodes, wires, unstableNodeIds, contentionWireIds]
+  );
+
+  // Lamps that broke the selected test row (or any row), shown while the top level is on screen
+  const testFailureNodeIds = useMemo(() => {
+    if (!testReport || editStack.length > 0) return [];
+    const rows = selectedTestRow !== null ? [testReport.results[selectedTestRow]] : testReport.results;
+    const labels = new Set(rows.flatMap(r => r?.mismatches.map(m => m.label) ?? []));
+    return nodes.filter(n => n.type === GateType.OUTPUT_LAMP && labels.has(n.label)).map(n => n.id);
+  }, [testReport, selectedTestRow, editStack, nodes]);
+
+  // Stores the outcome of a propagation
+  const applyPropagation = (res: ReturnType<typeof propagateCircuit>) => {
+    setNodes(res.nodes);
+    setWires(res.wires);
+    setUnstableNodeIds(res.unstableNodeIds);
+    setContentionWireIds(res.contentionWireIds);
+  };
   
   // Interaction State
   const [interaction, setInteraction] = useState<InteractionState>({
@@ -41,7 +168,9 @@ const App: React.FC = () => {
     dragStart: { x: 0, y: 0 },
     dragOffset: { x: 0, y: 0 },
     activeWireStart: null,
+    activeWaypoint: null,
     placingType: null,
+    placingComponentId: null,
   });
 
   // Refs
@@ -52,9 +181,26 @@ const App: React.FC = () => {
   const mousePosRef = useRef<Position>({ x: 0, y: 0 });
   const selectedNodeIdsRef = useRef(selectedNodeIds);
   const selectedWireIdsRef = useRef(selectedWireIds);
+  const diagnosticsRef = useRef(diagnostics);
+  const captureRef = useRef(capture);
+  const componentsRef = useRef(components);
+  const editStackRef = useRef(editStack);
+  const simTimeRef = useRef(0);
+  const testVectorsRef = useRef(testVectors);
+  const testFailureNodeIdsRef = useRef(testFailureNodeIds);
+  // Wire routes of this canvas, kept between frames
+  const wireLayoutCacheRef = useRef(createWireLayoutCache());
+  const layoutWires = (nodes: CircuitNode[], wires: Wire[]) => getWireLayout(nodes, wires, wireLayoutCacheRef.current);
   
   // Store initial positions of selected nodes when dragging starts
   const initialNodePositionsRef = useRef<Map<string, Position>>(new Map());
+  // Set once the current drag has been recorded, so a whole drag is one undo step
+  const dragRecordedRef = useRef(false);
+  // Bend points when a node drag starts, moved with wires whose both ends are dragged
+  const initialWaypointsRef = useRef<Map<string, Position[]>>(new Map());
+
+  // Undo / redo stacks of the circuit level being edited
+  const historyRef = useRef(createHistory());
 
   // Sync refs
   useEffect(() => { nodesRef.current = nodes; }, [nodes]);
@@ -63,30 +209,62 @@ const App: React.FC = () => {
   useEffect(() => { cameraRef.current = camera; }, [camera]);
   useEffect(() => { selectedNodeIdsRef.current = selectedNodeIds; }, [selectedNodeIds]);
   useEffect(() => { selectedWireIdsRef.current = selectedWireIds; }, [selectedWireIds]);
+  useEffect(() => { diagnosticsRef.current = diagnostics; }, [diagnostics]);
+  useEffect(() => { captureRef.current = capture; }, [capture]);
+  useEffect(() => { componentsRef.current = components; }, [components]);
+  useEffect(() => { editStackRef.current = editStack; }, [editStack]);
+  useEffect(() => { testVectorsRef.current = testVectors; }, [testVectors]);
+  useEffect(() => { testFailureNodeIdsRef.current = testFailureNodeIds; }, [testFailureNodeIds]);
+
+  // Runs the clocks forward and shows the circuit after the last edge; every edge is one analyzer step
+  const advanceSimulation = (target: number | null, maxEdges = MAX_EDGES_PER_TICK) => {
+    // Edges are capped per tick: a burst slows the simulation down instead of queueing work
+    const simulation = new CircuitSimulation(nodesRef.current, wiresRef.current);
+    // A settled circuit only changes where the clocks reach; an oscillating one keeps going everywhere
+    if (diagnosticsRef.current.unstableNodeIds.length > 0) simulation.evaluateAll();
+    const probes = captureRef.current.probes;
+    const steps: ProbeReadings[] = [];
+    const { edges, time } = advanceClocks(simulation, simTimeRef.current, target, maxEdges, sim => {
+      steps.push(readProbes(probes, sim));
+    });
+    simTimeRef.current = time;
+    if (edges === 0) return;
+
+    const result = simulation.result();
+    nodesRef.current = result.nodes;
+    wiresRef.current = result.wires;
+    applyPropagation(result);
+    setCapture(c => recordSamples(c, steps));
+    setSimTime(time);
+  };
 
   // Main Logic Loop (Clock & Propagation)
   useEffect(() => {
+    if (!isRunning) return;
+    let last = performance.now();
     const interval = setInterval(() => {
-      let needsUpdate = false;
-      const currentNodes = [...nodesRef.current];
-      
-      // Handle Clock Components
-      currentNodes.forEach(node => {
-        if (node.type === GateType.CLOCK) {
-          node.state = !node.state;
-          needsUpdate = true;
-        }
-      });
-
-      if (needsUpdate) {
-        const result = propagateCircuit(currentNodes, wiresRef.current);
-        setNodes(result.nodes);
-        setWires(result.wires);
-      }
-    }, 500); // 500ms Clock tick
+      const now = performance.now();
+      advanceSimulation(simTimeRef.current + ((now - last) / 1000) * speed);
+      last = now;
+    }, SIMULATION_TICK_MS);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [isRunning, speed]);
+
+  const handleStepSimulation = (count: number) => {
+    advanceSimulation(null, count);
+    setSimTime(simTimeRef.current);
+  };
+
+  // Back to time 0: clocks restart at their phase and memory elements forget their state
+  const handleResetSimulation = () => {
+    simTimeRef.current = 0;
+    setSimTime(0);
+    const result = propagateCircuit(resetSequentialState(applyClockLevels(nodesRef.current, 0)), wiresRef.current);
+    applyPropagation(result);
+    setCapture(c => clearSamples(c, result.nodes, result.wires));
+    setRevision(r => r + 1); // Saved, but not an undoable edit
+  };
 
   // Render Loop
   useEffect(() => {
@@ -111,21 +289,25 @@ const App: React.FC = () => {
         ctx, 
         nodesRef.current, 
         wiresRef.current, 
+        layoutWires(nodesRef.current, wiresRef.current),
         cameraRef.current, 
         currentInteraction,
         selectedNodeIdsRef.current,
         selectedWireIdsRef.current,
-        mousePosRef.current
+        mousePosRef.current,
+        diagnosticsRef.current,
+        testFailureNodeIdsRef.current
       );
 
       // Draw active wire line if dragging
       if (currentInteraction.mode === InteractionMode.WIRING && currentInteraction.activeWireStart) {
-        const { nodeId } = currentInteraction.activeWireStart;
+        const { nodeId, pinIndex, junction } = currentInteraction.activeWireStart;
         const node = nodesRef.current.find(n => n.id === nodeId);
         if (node) {
-          const startX = node.position.x + node.width;
-          const startY = node.position.y + node.height / 2;
-          const s = worldToScreen(startX, startY, cameraRef.current);
+          // Branches start on the wire they leave
+          const parentPath = junction && layoutWires(nodesRef.current, wiresRef.current).paths.get(junction.wireId);
+          const start = parentPath ? pointOnWire(parentPath, junction!.t) : getOutputPinPosition(node, pinIndex);
+          const s = worldToScreen(start.x, start.y, cameraRef.current);
           
           ctx.beginPath();
           ctx.moveTo(s.x, s.y);
@@ -145,6 +327,40 @@ const App: React.FC = () => {
     return () => cancelAnimationFrame(animId);
   }, []);
 
+  // --- History ---
+
+  // Call before an editing operation; simulation-only changes are not recorded
+  const recordHistory = () => {
+    historyRef.current = recordSnapshot(historyRef.current, {
+      nodes: nodesRef.current,
+      wires: wiresRef.current
+    });
+    setRevision(r => r + 1);
+  };
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+    const restoredNodes = keepSimulationState(snapshot.nodes, nodesRef.current);
+    applyPropagation(propagateCircuit(restoredNodes, snapshot.wires));
+    setRevision(r => r + 1);
+    setSelectedNodeIds([]);
+    setSelectedWireIds([]);
+    setContextMenu(null);
+  };
+
+  const undo = () => {
+    const step = undoSnapshot(historyRef.current, { nodes: nodesRef.current, wires: wiresRef.current });
+    if (!step) return;
+    historyRef.current = step.history;
+    restoreSnapshot(step.snapshot);
+  };
+
+  const redo = () => {
+    const step = redoSnapshot(historyRef.current, { nodes: nodesRef.current, wires: wiresRef.current });
+    if (!step) return;
+    historyRef.current = step.history;
+    restoreSnapshot(step.snapshot);
+  };
+
   // --- Actions ---
   const deleteSelected = () => {
     // Collect ids
@@ -157,16 +373,28 @@ const App: React.FC = () => {
     }
     
     if (nodeIdsToDelete.size === 0 && wireIdsToDelete.size === 0) return;
+    recordHistory();
 
     // Filter nodes
-    setNodes(prev => prev.filter(n => !nodeIdsToDelete.has(n.id)));
+    const remainingNodes = nodesRef.current.filter(n => !nodeIdsToDelete.has(n.id));
     
     // Filter wires (remove if explicitly selected OR if attached to a deleted node)
-    setWires(prev => prev.filter(w => 
+    const keptWires = wiresRef.current.filter(w => 
       !wireIdsToDelete.has(w.id) && 
       !nodeIdsToDelete.has(w.sourceNodeId) && 
       !nodeIdsToDelete.has(w.targetNodeId)
-    ));
+    );
+
+    // Branches of removed wires start from the source pin again
+    const keptWireIds = new Set(keptWires.map(w => w.id));
+    const remainingWires = keptWires.map(w => {
+      if (!w.junction || keptWireIds.has(w.junction.wireId)) return w;
+      const { junction, ...wire } = w;
+      return wire;
+    });
+
+    // Inputs that lost their driver now float
+    applyPropagation(propagateCircuit(remainingNodes, remainingWires));
 
     setSelectedNodeIds([]);
     setSelectedWireIds([]);
@@ -182,6 +410,7 @@ const App: React.FC = () => {
     }
 
     if (idsToDuplicate.length === 0) return;
+    recordHistory();
 
     const newNodes: CircuitNode[] = [];
     const idMap = new Map<string, string>(); // oldId -> newId
@@ -197,6 +426,8 @@ const App: React.FC = () => {
           id: newId,
           position: { x: original.position.x + 20, y: original.position.y + 20 },
           inputs: [...original.inputs], // Copy state
+          outputs: [...original.outputs],
+          memory: original.memory && [...original.memory],
           state: original.state,
           color: original.color
         });
@@ -204,20 +435,24 @@ const App: React.FC = () => {
     });
 
     // 2. Clone internal wires (wires connecting two duplicated nodes)
-    const newWires: Wire[] = [];
+    const copiedWires: Wire[] = [];
+    const wireIdMap = new Map<string, string>();
     wires.forEach(w => {
       if (idMap.has(w.sourceNodeId) && idMap.has(w.targetNodeId)) {
-        newWires.push({
+        const newId = generateId();
+        wireIdMap.set(w.id, newId);
+        copiedWires.push({
           ...w,
-          id: generateId(),
+          id: newId,
           sourceNodeId: idMap.get(w.sourceNodeId)!,
           targetNodeId: idMap.get(w.targetNodeId)!
         });
       }
     });
+    const newWires = relinkWireCopies(copiedWires, wireIdMap, { x: 20, y: 20 });
 
-    setNodes(prev => [...prev, ...newNodes]);
-    setWires(prev => [...prev, ...newWires]);
+    // Copies lose their external drivers, so their inputs float until rewired
+    applyPropagation(propagateCircuit([...nodes, ...newNodes], [...wires, ...newWires]));
     
     // Select the new copies
     setSelectedNodeIds(newNodes.map(n => n.id));
@@ -225,10 +460,94 @@ const App: React.FC = () => {
     setContextMenu(null);
   };
 
+  // --- Clipboard ---
+
+  // Puts the selection on the system clipboard as a ProjectData fragment
+  const copySelection = (clipboard: DataTransfer): boolean => {
+    if (selectedNodeIdsRef.current.length === 0) return false;
+    const fragment = createClipboardFragment(
+      nodesRef.current,
+      wiresRef.current,
+      selectedNodeIdsRef.current,
+      componentsRef.current,
+      cameraRef.current
+    );
+    clipboard.setData('text/plain', JSON.stringify(fragment, null, 2));
+    return true;
+  };
+
+  // Pastes a fragment centred on the cursor
+  const pasteFragment = (text: string) => {
+    const fragment = parseClipboardFragment(text);
+    if (!fragment || fragment.nodes.length === 0) return;
+
+    // A component can't be pasted into its own definition
+    const editing = editStackRef.current;
+    const allComponents = [
+      ...componentsRef.current,
+      ...(fragment.components || []).filter(c => !componentsRef.current.some(d => d.id === c.id))
+    ];
+    const blocked = fragment.nodes.some(n =>
+      n.type === GateType.SUBCIRCUIT && n.componentId !== undefined &&
+      editing.some(frame => componentDependsOn(allComponents, n.componentId!, frame.componentId))
+    );
+    if (blocked) {
+      alert("A component can't be pasted inside its own definition.");
+      return;
+    }
+
+    const position = screenToWorld(mousePosRef.current.x, mousePosRef.current.y, cameraRef.current);
+    const pasted = instantiateFragment(fragment, position, componentsRef.current);
+
+    recordHistory();
+    if (pasted.components.length > 0) {
+      setComponents(prev => [...prev, ...pasted.components]);
+    }
+    applyPropagation(propagateCircuit([...nodesRef.current, ...pasted.nodes], [...wiresRef.current, ...pasted.wires]));
+    setSelectedNodeIds(pasted.nodes.map(n => n.id));
+    setSelectedWireIds([]);
+  };
+
+  useEffect(() => {
+    // Clipboard events give synchronous access to the system clipboard, without permission prompts
+    const isTyping = (e: Event) => {
+      const target = e.target as HTMLElement;
+      return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA';
+    };
+    const onCopy = (e: ClipboardEvent) => {
+      if (isTyping(e) || !e.clipboardData) return;
+      if (copySelection(e.clipboardData)) e.preventDefault();
+    };
+    const onCut = (e: ClipboardEvent) => {
+      if (isTyping(e) || !e.clipboardData) return;
+      if (copySelection(e.clipboardData)) {
+        e.preventDefault();
+        deleteSelected();
+      }
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (isTyping(e) || !e.clipboardData) return;
+      e.preventDefault();
+      pasteFragment(e.clipboardData.getData('text/plain'));
+    };
+
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCut);
+    window.addEventListener('paste', onPaste);
+    return () => {
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCut);
+      window.removeEventListener('paste', onPaste);
+    };
+  }, []);
+
   const handleInputCountChange = (delta: number) => {
     if (!contextMenu?.nodeId) return;
     
     const nodeId = contextMenu.nodeId;
+    const target = nodes.find(n => n.id === nodeId);
+    if (!target || Math.min(32, Math.max(2, target.inputs.length + delta)) === target.inputs.length) return;
+    recordHistory();
     
     setNodes(prevNodes => prevNodes.map(node => {
       if (node.id !== nodeId) return node;
@@ -268,14 +587,191 @@ const App: React.FC = () => {
     }));
   };
 
+  // Labels name the ports of exported netlists and component pins
+  const handleRenameNode = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    const label = prompt("Label:", node.label)?.trim();
+    setContextMenu(null);
+    if (!label || label === node.label) return;
+
+    recordHistory();
+    setNodes(prev => prev.map(n => n.id === nodeId ? { ...n, label } : n));
+  };
+
+  const handleDelayChange = (delta: number) => {
+    if (!contextMenu?.nodeId) return;
+
+    const nodeId = contextMenu.nodeId;
+    const target = nodes.find(n => n.id === nodeId);
+    if (!target || Math.min(100, Math.max(0, getNodeDelay(target) + delta)) === getNodeDelay(target)) return;
+    recordHistory();
+
+    setNodes(prevNodes => prevNodes.map(node => {
+      if (node.id !== nodeId) return node;
+      const newDelay = Math.min(100, Math.max(0, getNodeDelay(node) + delta));
+      return { ...node, delay: newDelay };
+    }));
+  };
+
+  // Frequency doubles / halves, duty cycle moves in 5 % and phase in 45° steps
+  const handleClockChange = (field: keyof ClockSettings, delta: number) => {
+    if (!contextMenu?.nodeId) return;
+
+    const nodeId = contextMenu.nodeId;
+    const target = nodes.find(n => n.id === nodeId);
+    if (!target || target.type !== GateType.CLOCK) return;
+    const settings = getClockSettings(target);
+    const value = field === 'frequency'
+      ? Math.min(MAX_CLOCK_FREQUENCY, Math.max(MIN_CLOCK_FREQUENCY, settings.frequency * Math.pow(2, delta)))
+      : field === 'dutyCycle'
+        ? Math.min(MAX_DUTY_CYCLE, Math.max(MIN_DUTY_CYCLE, settings.dutyCycle + delta * 5))
+        : (settings.phase + delta * 45 + 360) % 360;
+    if (value === settings[field]) return;
+    recordHistory();
+
+    setNodes(prevNodes => prevNodes.map(node => (node.id === nodeId ? { ...node, [field]: value } : node)));
+  };
+
+  // The style applies to wires drawn from now on and to the selected wires, dropping their bend points
+  const handleWireStyleChange = (style: WireCurveType) => {
+    setWireStyle(style);
+    if (selectedWireIds.length === 0) return;
+    recordHistory();
+    setWires(prevWires => prevWires.map(w => {
+      if (!selectedWireIds.includes(w.id)) return w;
+      const { waypoints, ...wire } = w;
+      return { ...wire, curveType: style };
+    }));
+  };
+
+  const handleBitWidthChange = (delta: number) => {
+    if (!contextMenu?.nodeId) return;
+
+    const nodeId = contextMenu.nodeId;
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+
+    const minWidth = node.type === GateType.SPLITTER || node.type === GateType.MERGER ? 2 : 1;
+    const newWidth = Math.min(MAX_BIT_WIDTH, Math.max(minWidth, getBitWidth(node) + delta));
+    if (newWidth === getBitWidth(node)) return;
+    recordHistory();
+
+    // Wires that no longer match the pin widths are removed
+    const newNodes = nodes.map(n => n.id === nodeId ? setNodeBitWidth(n, newWidth) : n);
+    applyPropagation(propagateCircuit(newNodes, pruneMismatchedWires(newNodes, wires)));
+  };
+
+  // --- Components (Subcircuits) ---
+
+  // Truth table and equations of the selected switches -> lamps
+  const handleAnalyseSelection = () => {
+    if (selectedNodeIds.length === 0) return;
+    const result = analyseCircuit(nodes, wires, selectedNodeIds);
+    if (result.error) {
+      alert(result.error);
+      return;
+    }
+    setAnalysis(result.analysis!);
+  };
+
+  // Probes every selected node and wire in the logic analyzer
+  const handleProbeSelection = () => {
+    setCapture(c => {
+      let next = c;
+      selectedNodeIds.forEach(id => { next = addProbe(next, 'node', id, nodes, wires); });
+      selectedWireIds.forEach(id => { next = addProbe(next, 'wire', id, nodes, wires); });
+      return next;
+    });
+    setIsAnalyzerOpen(true);
+  };
+
+  const handleProbeNode = (nodeId: string) => {
+    setCapture(c => addProbe(c, 'node', nodeId, nodes, wires));
+    setIsAnalyzerOpen(true);
+    setContextMenu(null);
+  };
+
+  const handleCreateComponent = () => {
+    if (selectedNodeIds.length === 0) return;
+    // Nested circuits have no time base of their own, so a clock inside would never tick
+    if (nodes.some(n => n.type === GateType.CLOCK && selectedNodeIds.includes(n.id))) {
+      alert("Clocks can't go inside a component. Leave the clock outside and wire it to an Input Switch pin.");
+      return;
+    }
+
+    const name = prompt("Component name:", `Component ${components.length + 1}`);
+    if (!name) return;
+
+    const definition = createComponentDefinition(name, nodes, wires, selectedNodeIds);
+    if (definition.inputNodeIds.length === 0 && definition.outputNodeIds.length === 0) {
+      alert("The selection needs at least one Input Switch or Output Lamp that is not wired outside it to become a pin.");
+      return;
+    }
+
+    setComponents(prev => [...prev, definition]);
+  };
+
+  // Drill down into the definition behind a SUBCIRCUIT node
+  const enterComponent = (nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    const definition = components.find(d => d.id === node?.componentId);
+    if (!definition) return;
+
+    setEditStack(prev => [...prev, { componentId: definition.id, nodes, wires, camera }]);
+    historyRef.current = createHistory(); // History is per circuit level
+    applyPropagation(propagateCircuit(definition.nodes, definition.wires));
+    setCamera({ x: 320, y: 80, zoom: 1 }); // Definitions start at the origin, clear of the toolbar
+    setSelectedNodeIds([]);
+    setSelectedWireIds([]);
+    setContextMenu(null);
+  };
+
+  // Store the edited definition and return to the parent level with its instances rebuilt
+  const finishEditingComponent = () => {
+    const frame = editStack[editStack.length - 1];
+    if (!frame) return;
+    if (nodes.some(n => n.type === GateType.CLOCK)) {
+      alert("Clocks can't go inside a component. Remove the clock and drive an Input Switch pin from outside instead.");
+      return;
+    }
+
+    let nextComponents = components.map(d => 
+      d.id === frame.componentId ? updateComponentDefinition(d, nodes, wires) : d
+    );
+    // Instances nested in other definitions must follow pin changes too
+    nextComponents = nextComponents.map(d => {
+      const refreshed = refreshInstances(d.nodes, nextComponents);
+      return { ...d, nodes: refreshed, wires: pruneDanglingWires(refreshed, d.wires) };
+    });
+
+    const parentNodes = refreshInstances(frame.nodes, nextComponents);
+    const res = propagateCircuit(parentNodes, pruneDanglingWires(parentNodes, frame.wires));
+
+    setComponents(nextComponents);
+    historyRef.current = createHistory();
+    applyPropagation(res);
+    setCamera(frame.camera);
+    setEditStack(prev => prev.slice(0, -1));
+    setSelectedNodeIds([]);
+    setSelectedWireIds([]);
+  };
+
   // --- Save / Load ---
 
   const handleSaveProject = () => {
+    if (editStack.length > 0) {
+      alert("Finish editing the component before saving.");
+      return;
+    }
+
     const projectData: ProjectData = {
-      version: '1.0.0',
+      version: PROJECT_VERSION,
       nodes: nodes,
       wires: wires,
-      camera: camera
+      camera: camera,
+      components: components,
+      testVectors: testVectors
     };
 
     const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
@@ -290,25 +786,92 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const handleLoadProject = (file: File) => {
+  // Structural netlist of the top-level circuit, named after the project
+  const handleExportVerilog = () => {
+    const root = getRootProjectData();
+    const name = projects.find(p => p.id === currentProjectId)?.name || 'circuit';
+    const source = exportVerilog(root.nodes, root.wires, root.components || [], name);
+
+    const blob = new Blob([source], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name.replace(/[^A-Za-z0-9_-]+/g, '_')}.v`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Gate-level netlists are placed into the current circuit at the view centre
+  const handleImportNetlist = (file: File) => {
     const reader = new FileReader();
     reader.onload = (e) => {
+      const source = e.target?.result as string;
+      const centerWorld = screenToWorld(
+        (containerRef.current?.clientWidth || 800) / 2,
+        (containerRef.current?.clientHeight || 600) / 2,
+        camera
+      );
+      const result = importNetlist(source, detectNetlistLanguage(file.name, source), centerWorld);
+      if (result.error || !result.nodes || !result.wires) {
+        alert(`Failed to import ${file.name}:\n${result.error}`);
+        return;
+      }
+      recordHistory();
+      applyPropagation(propagateCircuit([...nodesRef.current, ...result.nodes], [...wiresRef.current, ...result.wires]));
+      setSelectedNodeIds(result.nodes.map(n => n.id));
+      setSelectedWireIds([]);
+    };
+    reader.readAsText(file);
+  };
+
+  // Vectors name the top-level switches and lamps, also while a component is being edited
+  const handleImportTestVectors = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const { inputs, outputs } = getTestLabels(getRootProjectData());
+      const result = parseTestVectorCsv(e.target?.result as string, inputs, outputs);
+      if (result.error || !result.vectors) {
+        alert(`Failed to import ${file.name}:\n${result.error}`);
+        return;
+      }
+      setTestVectors(result.vectors);
+      setTestReport(null);
+      setSelectedTestRow(null);
+      setRevision(r => r + 1);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRunTests = () => {
+    setTestReport(runTestVectors(getRootProjectData(), testVectors));
+    setSelectedTestRow(null);
+  };
+
+  const handleClearTestVectors = () => {
+    if (!confirm(`Remove all ${testVectors.length} test vectors?`)) return;
+    setTestVectors([]);
+    setTestReport(null);
+    setSelectedTestRow(null);
+    setRevision(r => r + 1);
+  };
+
+  // Imported files become a new stored project
+  const handleLoadProject = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (e) => {
       try {
         const content = e.target?.result as string;
-        const projectData = JSON.parse(content) as ProjectData;
+        const { data, errors } = readProject(JSON.parse(content));
         
-        // Basic validation
-        if (Array.isArray(projectData.nodes) && Array.isArray(projectData.wires)) {
-          setNodes(projectData.nodes);
-          setWires(projectData.wires);
-          if (projectData.camera) {
-            setCamera(projectData.camera);
-          }
-          // Reset selection
-          setSelectedNodeIds([]);
-          setSelectedWireIds([]);
+        if (data) {
+          await openNewProject(file.name.replace(/\.json$/i, ''), data);
         } else {
-          alert("Invalid project file format.");
+          // List the first problems; a broken file usually repeats the same mistake
+          const shown = errors.slice(0, 10).map(err => `• ${err}`).join('\n');
+          const more = errors.length > 10 ? `\n…and ${errors.length - 10} more` : '';
+          alert(`Invalid project file:\n${shown}${more}`);
         }
       } catch (err) {
         console.error("Failed to parse project file", err);
@@ -318,9 +881,169 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  // --- Project Browser (IndexedDB) ---
+
+  const createEmptyProjectData = (): ProjectData => ({
+    version: PROJECT_VERSION,
+    nodes: [],
+    wires: [],
+    camera: { x: 0, y: 0, zoom: 1 },
+    components: [],
+    testVectors: []
+  });
+
+  // The top-level circuit, also while a component is being edited
+  const getRootProjectData = (): ProjectData => {
+    const root = editStackRef.current[0];
+    return {
+      version: PROJECT_VERSION,
+      nodes: root ? root.nodes : nodesRef.current,
+      wires: root ? root.wires : wiresRef.current,
+      camera: root ? root.camera : cameraRef.current,
+      components: componentsRef.current,
+      testVectors: testVectorsRef.current
+    };
+  };
+
+  // Replaces the canvas with a project's circuit
+  const showProjectData = (data: ProjectData) => {
+    // Subcircuit instances are rebuilt from their definitions rather than trusted as saved
+    const projectData = refreshProjectInstances(normalizeProject(data));
+    applyPropagation(propagateCircuit(projectData.nodes, projectData.wires));
+    setComponents(projectData.components || []);
+    setEditStack([]);
+    historyRef.current = createHistory();
+    if (projectData.camera) {
+      setCamera(projectData.camera);
+    }
+    setSelectedNodeIds([]);
+    setSelectedWireIds([]);
+    setContextMenu(null);
+    setCapture(createCapture());
+    simTimeRef.current = 0;
+    setSimTime(0);
+    setTestVectors(projectData.testVectors || []);
+    setTestReport(null);
+    setSelectedTestRow(null);
+  };
+
+  const sortProjects = (list: ProjectSummary[]) => [...list].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const persistProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    if (!summary) return;
+    const stored = createStoredProject(id, summary.name, getRootProjectData());
+    try {
+      await saveProject(stored);
+      setProjects(prev => sortProjects(prev.map(p => p.id === id ? { ...p, updatedAt: stored.updatedAt } : p)));
+    } catch (err) {
+      console.error("Autosave failed", err);
+    }
+  };
+
+  const openNewProject = async (name: string, data: ProjectData, keepCurrent = true) => {
+    if (keepCurrent && currentProjectId) await persistProject(currentProjectId);
+    const stored = createStoredProject(generateId(), name, data);
+    await saveProject(stored);
+    await setLastProjectId(stored.id);
+    setProjects(prev => sortProjects([...prev, { id: stored.id, name, updatedAt: stored.updatedAt }]));
+    showProjectData(stored.data);
+    setCurrentProjectId(stored.id);
+  };
+
+  const handleNewProject = async () => {
+    const name = prompt("Project name:", `Project ${projects.length + 1}`);
+    if (!name) return;
+    await openNewProject(name, createEmptyProjectData());
+  };
+
+  const handleOpenProject = async (id: string) => {
+    if (id === currentProjectId) return;
+    if (currentProjectId) await persistProject(currentProjectId);
+    const stored = await loadProject(id);
+    if (!stored) return;
+    await setLastProjectId(id);
+    showProjectData(stored.data);
+    setCurrentProjectId(id);
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    const name = prompt("Project name:", summary?.name);
+    if (!name) return;
+    await renameProject(id, name);
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    if (!summary) return;
+    if (id === currentProjectId) await persistProject(id); // Copy what is on screen
+    const copy = await duplicateProject(id, generateId(), `${summary.name} (copy)`);
+    if (copy) {
+      setProjects(prev => sortProjects([...prev, { id: copy.id, name: copy.name, updatedAt: copy.updatedAt }]));
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    if (!summary || !confirm(`Delete project "${summary.name}"?`)) return;
+    await deleteProject(id);
+    const remaining = projects.filter(p => p.id !== id);
+    setProjects(remaining);
+    if (id !== currentProjectId) return;
+
+    // The open project is gone: continue with the most recent one, or a blank project
+    const next = remaining[0] && await loadProject(remaining[0].id);
+    if (next) {
+      await setLastProjectId(next.id);
+      showProjectData(next.data);
+      setCurrentProjectId(next.id);
+    } else {
+      await openNewProject('Untitled', createEmptyProjectData(), false);
+    }
+  };
+
+  // Recover the last session (or start a blank project) on load
+  const restoreStartedRef = useRef(false); // StrictMode runs mount effects twice
+  useEffect(() => {
+    if (restoreStartedRef.current) return;
+    restoreStartedRef.current = true;
+
+    const restore = async () => {
+      try {
+        const list = await listProjects();
+        const lastId = await getLastProjectId();
+        const last = (lastId && await loadProject(lastId)) || (list[0] && await loadProject(list[0].id));
+        if (last) {
+          setProjects(list);
+          showProjectData(last.data);
+          setCurrentProjectId(last.id);
+          await setLastProjectId(last.id);
+          return;
+        }
+        const stored = createStoredProject(generateId(), 'Untitled', createEmptyProjectData());
+        await saveProject(stored);
+        await setLastProjectId(stored.id);
+        setProjects([{ id: stored.id, name: stored.name, updatedAt: stored.updatedAt }]);
+        setCurrentProjectId(stored.id);
+      } catch (err) {
+        console.error("Project storage unavailable", err);
+      }
+    };
+    restore();
+  }, []);
+
+  // Debounced autosave after edits and camera moves (simulation ticks don't count as edits)
+  useEffect(() => {
+    if (!currentProjectId) return;
+    const timer = setTimeout(() => persistProject(currentProjectId), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [revision, camera, components, currentProjectId]);
+
   // --- Karnaugh Generator ---
   
-  const handleKarnaughGenerate = (numVars: number, truthTable: boolean[]) => {
+  const handleKarnaughGenerate = (numVars: number, truthTables: TruthValue[][], form: SynthesisForm, variableNames: string[]) => {
     // Determine spawn position (center of current view)
     const centerWorld = screenToWorld(
         (containerRef.current?.clientWidth || 800) / 2,
@@ -333,16 +1056,48 @@ const App: React.FC = () => {
 
     const { nodes: newNodes, wires: newWires } = generateCircuitFromTruthTable(
         numVars, 
-        truthTable, 
-        centerWorld
+        truthTables, 
+        centerWorld,
+        form,
+        variableNames
     );
 
     // Merge into existing circuit
-    setNodes(prev => [...prev, ...newNodes]);
-    setWires(prev => [...prev, ...newWires]);
+    recordHistory();
+    applyPropagation(propagateCircuit([...nodes, ...newNodes], [...wires, ...newWires]));
     setIsKarnaughOpen(false);
   };
 
+  // Typed expressions are built gate for gate, or as a minimal sum of products
+  const handleExpressionGenerate = (expression: LogicExpression, variables: string[], minimise: boolean) => {
+    const centerWorld = screenToWorld(
+        (containerRef.current?.clientWidth || 800) / 2,
+        (containerRef.current?.clientHeight || 600) / 2,
+        camera
+    );
+
+    let circuit: { nodes: CircuitNode[], wires: Wire[] };
+    const truthTable = expressionTruthTable(expression, variables);
+    const isConstant = truthTable.every(v => v === truthTable[0]);
+    if (minimise && !isConstant) {
+      const minterms = truthTable.map((val, idx) => val ? idx : -1).filter(idx => idx !== -1);
+      circuit = generateCircuitFromTerms(
+        variables.length,
+        [minimiseSumOfProducts(variables.length, minterms)],
+        { x: centerWorld.x - 300, y: centerWorld.y - 200 },
+        variables
+      );
+    } else {
+      // A constant result needs no gates: a fixed switch drives the lamp
+      const source: LogicExpression = minimise ? { kind: 'const', value: truthTable[0] } : expression;
+      circuit = generateCircuitFromExpression(source, minimise ? [] : variables, centerWorld);
+    }
+
+    recordHistory();
+    applyPropagation(propagateCircuit([...nodes, ...circuit.nodes], [...wires, ...circuit.wires]));
+    setIsExpressionOpen(false);
+  };
+
 
   // --- Interaction Handlers ---
 
@@ -387,6 +1142,20 @@ const App: React.FC = () => {
     // Placing Mode
     if (interaction.mode === InteractionMode.PLACING && interaction.placingType) {
       const config = COMPONENT_CONFIGS[interaction.placingType];
+
+      if (interaction.placingType === GateType.SUBCIRCUIT) {
+        const definition = components.find(d => d.id === interaction.placingComponentId);
+        if (!definition) return;
+        const newNode = createSubcircuitNode(definition, components, { x: 0, y: 0 });
+        newNode.position = { x: worldPos.x - newNode.width/2, y: worldPos.y - newNode.height/2 };
+
+        recordHistory();
+        applyPropagation(propagateCircuit([...nodes, newNode], wires));
+        setSelectedNodeIds([newNode.id]);
+        setSelectedWireIds([]);
+        return;
+      }
+
       const newNode: CircuitNode = {
         id: generateId(),
         type: interaction.placingType,
@@ -394,11 +1163,14 @@ const App: React.FC = () => {
         width: config.width,
         height: config.height,
         inputs: new Array(config.inputCount).fill(false),
+        outputs: new Array(config.outputCount).fill(false),
+        bitWidth: config.bitWidth,
         state: false,
         label: config.label
       };
       
-      setNodes(prev => [...prev, newNode]);
+      recordHistory();
+      applyPropagation(propagateCircuit([...nodes, newNode], wires));
       setSelectedNodeIds([newNode.id]);
       setSelectedWireIds([]);
       return;
@@ -418,6 +1190,19 @@ const App: React.FC = () => {
       return;
     }
 
+    // Bend point of a selected wire
+    const waypoint = checkWaypointHit(worldPos.x, worldPos.y, wires, selectedWireIds);
+    if (waypoint) {
+      dragRecordedRef.current = false;
+      setInteraction(prev => ({
+        ...prev,
+        mode: InteractionMode.DRAGGING_WAYPOINT,
+        activeWaypoint: waypoint,
+        dragStart: { x, y }
+      }));
+      return;
+    }
+
     // Node Interaction (Selection / Dragging)
     if (interaction.hoveredNodeId) {
       const nodeId = interaction.hoveredNodeId;
@@ -449,6 +1234,10 @@ const App: React.FC = () => {
         }
       });
       initialNodePositionsRef.current = initialPosMap;
+      initialWaypointsRef.current = new Map(
+        wires.filter(w => w.waypoints).map(w => [w.id, w.waypoints!])
+      );
+      dragRecordedRef.current = false;
 
       setInteraction(prev => ({
         ...prev,
@@ -460,7 +1249,24 @@ const App: React.FC = () => {
     
     // Wire Selection Check (if no node or pin is hovered)
     // Check if we hit a wire using the logic in renderer
-    const hitWireId = checkWireHit(worldPos.x, worldPos.y, wires, nodes);
+    const hitWireId = checkWireHit(worldPos.x, worldPos.y, wires, layoutWires(nodes, wires));
+    if (hitWireId && e.altKey) {
+      // Alt-drag from a wire starts a branch of its net at that point
+      const hitWire = wires.find(w => w.id === hitWireId)!;
+      const path = layoutWires(nodes, wires).paths.get(hitWireId)!;
+      setInteraction(prev => ({
+        ...prev,
+        mode: InteractionMode.WIRING,
+        activeWireStart: {
+          nodeId: hitWire.sourceNodeId,
+          pinIndex: hitWire.sourcePinIndex,
+          junction: { wireId: hitWireId, t: wireParameterAt(path, worldPos) }
+        }
+      }));
+      setSelectedNodeIds([]);
+      setSelectedWireIds([]);
+      return;
+    }
     if (hitWireId) {
       const isMultiSelectKey = e.shiftKey || e.ctrlKey || e.metaKey;
       let newWireSelection = [...selectedWireIds];
@@ -507,10 +1313,40 @@ const App: React.FC = () => {
       return;
     }
 
+    // Dragging a bend point
+    if (interaction.mode === InteractionMode.DRAGGING_WAYPOINT && interaction.activeWaypoint) {
+      const { wireId, index } = interaction.activeWaypoint;
+      const wire = wires.find(w => w.id === wireId);
+      const path = layoutWires(nodes, wires).paths.get(wireId);
+      if (!wire?.waypoints || !path) return;
+
+      // The path is [start, ...waypoints, end], so the neighbours sit either side of index + 1
+      const worldPos = screenToWorld(x, y, camera);
+      const point = snapWaypoint(worldPos, [path.points[index], path.points[index + 2]]);
+      const current = wire.waypoints[index];
+      if (point.x === current.x && point.y === current.y) return;
+
+      // The first movement records the whole drag as one step
+      if (!dragRecordedRef.current) {
+        recordHistory();
+        dragRecordedRef.current = true;
+      }
+      setWires(prev => prev.map(w => (w.id === wireId
+        ? { ...w, waypoints: w.waypoints!.map((p, i) => (i === index ? point : p)) }
+        : w)));
+      return;
+    }
+
     // Dragging Nodes
     if (interaction.mode === InteractionMode.DRAGGING_NODE) {
       const dx = (x - interaction.dragStart.x) / camera.zoom;
       const dy = (y - interaction.dragStart.y) / camera.zoom;
+
+      // The first movement records the whole drag as one step
+      if (!dragRecordedRef.current && (dx !== 0 || dy !== 0)) {
+        recordHistory();
+        dragRecordedRef.current = true;
+      }
       
       setNodes(prev => prev.map(n => {
         if (initialNodePositionsRef.current.has(n.id)) {
@@ -522,6 +1358,14 @@ const App: React.FC = () => {
         }
         return n;
       }));
+
+      // Bend points of wires between dragged nodes move along with them
+      const moved = initialNodePositionsRef.current;
+      if (initialWaypointsRef.current.size > 0) setWires(prev => prev.map(w => {
+        const initial = initialWaypointsRef.current.get(w.id);
+        if (!initial || !moved.has(w.sourceNodeId) || !moved.has(w.targetNodeId)) return w;
+        return { ...w, waypoints: initial.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+      }));
       return;
     }
 
@@ -556,26 +1400,21 @@ const App: React.FC = () => {
       // Check Nodes & Pins
       for (let i = nodes.length - 1; i >= 0; i--) {
         const node = nodes[i];
-        const config = COMPONENT_CONFIGS[node.type];
         
         // Pins - Dynamic Check
-        const inputCount = node.inputs.length;
-        const pinSpacingIn = node.height / (inputCount + 1);
-        for (let p = 0; p < inputCount; p++) {
-          const px = node.position.x;
-          const py = node.position.y + (pinSpacingIn * (p + 1));
-          if (Math.hypot(worldPos.x - px, worldPos.y - py) < 10) {
+        for (let p = 0; p < node.inputs.length; p++) {
+          const pin = getInputPinPosition(node, p);
+          if (Math.hypot(worldPos.x - pin.x, worldPos.y - pin.y) < 10) {
             foundPin = { nodeId: node.id, type: 'input', index: p };
             break;
           }
         }
         if (foundPin) break;
 
-        if (config.outputCount > 0) {
-          const px = node.position.x + node.width;
-          const py = node.position.y + node.height / 2;
-          if (Math.hypot(worldPos.x - px, worldPos.y - py) < 10) {
-            foundPin = { nodeId: node.id, type: 'output', index: 0 };
+        for (let p = 0; p < getOutputCount(node); p++) {
+          const pin = getOutputPinPosition(node, p);
+          if (Math.hypot(worldPos.x - pin.x, worldPos.y - pin.y) < 10) {
+            foundPin = { nodeId: node.id, type: 'output', index: p };
             break;
           }
         }
@@ -592,7 +1431,7 @@ const App: React.FC = () => {
       // Check Wires (Only if no node/pin hovered to avoid noise)
       let foundWireId: string | null = null;
       if (!foundNodeId && !foundPin) {
-        foundWireId = checkWireHit(worldPos.x, worldPos.y, wires, nodes);
+        foundWireId = checkWireHit(worldPos.x, worldPos.y, wires, layoutWires(nodes, wires));
       }
 
       setInteraction(prev => ({
@@ -614,18 +1453,28 @@ const App: React.FC = () => {
           sourcePinIndex: interaction.activeWireStart.pinIndex,
           targetNodeId: interaction.hoveredPin.nodeId,
           targetPinIndex: interaction.hoveredPin.index,
-          state: false
+          state: false,
+          curveType: wireStyle,
+          ...(interaction.activeWireStart.junction ? { junction: interaction.activeWireStart.junction } : {})
         };
         
+        // Several drivers may share an input (wired bus), but the same connection only once
         const exists = wires.some(w => 
+          w.sourceNodeId === newWire.sourceNodeId && w.sourcePinIndex === newWire.sourcePinIndex &&
           w.targetNodeId === newWire.targetNodeId && w.targetPinIndex === newWire.targetPinIndex
         );
 
-        if (!exists) {
+        // Only pins of the same bus width can be connected
+        const sourceNode = nodes.find(n => n.id === newWire.sourceNodeId);
+        const targetNode = nodes.find(n => n.id === newWire.targetNodeId);
+        const sourceWidth = sourceNode ? getOutputPinWidth(sourceNode, newWire.sourcePinIndex) : 1;
+        const targetWidth = targetNode ? getInputPinWidth(targetNode, newWire.targetPinIndex) : 1;
+        if (sourceWidth > 1) newWire.bitWidth = sourceWidth;
+
+        if (!exists && sourceWidth === targetWidth) {
+          recordHistory();
           const newWires = [...wires, newWire];
-          const res = propagateCircuit(nodes, newWires);
-          setNodes(res.nodes);
-          setWires(res.wires);
+          applyPropagation(propagateCircuit(nodes, newWires));
         }
       }
     }
@@ -639,21 +1488,66 @@ const App: React.FC = () => {
            const newNodes = nodes.map(n => 
              n.id === node.id ? { ...n, state: !n.state } : n
            );
-           const res = propagateCircuit(newNodes, wires);
-           setNodes(res.nodes);
-           setWires(res.wires);
+           // Only the switch's fan-out changes, unless the circuit was still oscillating
+           const settled = diagnosticsRef.current.unstableNodeIds.length === 0;
+           const result = propagateCircuit(newNodes, wires, settled ? [node.id] : undefined);
+           applyPropagation(result);
+           setCapture(c => recordSamples(c, [readProbes(c.probes, result)]));
+           setRevision(r => r + 1); // Saved, but not an undoable edit
         }
       }
     }
 
+    // A drag was recorded when it started; save where it ended
+    if (
+      (interaction.mode === InteractionMode.DRAGGING_NODE || interaction.mode === InteractionMode.DRAGGING_WAYPOINT)
+      && dragRecordedRef.current
+    ) {
+      dragRecordedRef.current = false;
+      setRevision(r => r + 1);
+    }
+
     setInteraction(prev => ({
       ...prev,
       mode: prev.mode === InteractionMode.PLACING ? InteractionMode.PLACING : InteractionMode.IDLE,
       activeWireStart: null,
+      activeWaypoint: null,
       dragStart: { x: 0, y: 0 }
     }));
   };
 
+  // Double-click enters a subcircuit, adds a bend point to a wire or removes the one clicked
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const node = nodes.find(n => n.id === interaction.hoveredNodeId);
+    if (node) {
+      if (node.type === GateType.SUBCIRCUIT) enterComponent(node.id);
+      return;
+    }
+
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const worldPos = screenToWorld(e.clientX - rect.left, e.clientY - rect.top, camera);
+
+    const waypoint = checkWaypointHit(worldPos.x, worldPos.y, wires, selectedWireIds);
+    if (waypoint) {
+      recordHistory();
+      setWires(prev => prev.map(w => {
+        if (w.id !== waypoint.wireId) return w;
+        const remaining = w.waypoints!.filter((_, i) => i !== waypoint.index);
+        if (remaining.length > 0) return { ...w, waypoints: remaining };
+        const { waypoints, ...wire } = w;
+        return wire;
+      }));
+      return;
+    }
+
+    const wireId = checkWireHit(worldPos.x, worldPos.y, wires, layoutWires(nodes, wires));
+    const path = wireId && layoutWires(nodes, wires).paths.get(wireId);
+    if (!path) return;
+    recordHistory();
+    setWires(prev => prev.map(w => (w.id === wireId ? { ...w, waypoints: insertWaypoint(path, worldPos) } : w)));
+    setSelectedWireIds([wireId]);
+  };
+
   const handleWheel = (e: React.WheelEvent) => {
     const zoomIntensity = 0.1;
     const direction = e.deltaY > 0 ? -1 : 1;
@@ -662,6 +1556,21 @@ const App: React.FC = () => {
   };
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    // Leave keys alone while typing in a field
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      redo();
+      return;
+    }
     if (e.key === 'Delete' || e.key === 'Backspace') {
       deleteSelected();
     }
@@ -672,11 +1581,12 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleKeyDown]);
 
-  const selectTool = (mode: InteractionMode, gateType?: GateType) => {
+  const selectTool = (mode: InteractionMode, gateType?: GateType, componentId?: string) => {
     setInteraction(prev => ({
       ...prev,
       mode: mode,
-      placingType: gateType || null
+      placingType: gateType || null,
+      placingComponentId: componentId || null
     }));
     if (mode !== InteractionMode.IDLE) {
       setSelectedNodeIds([]);
@@ -684,16 +1594,59 @@ const App: React.FC = () => {
     }
   };
 
+  const contextMenuNode = contextMenu ? nodes.find(n => n.id === contextMenu.nodeId) : undefined;
+
+  // While drilled down, hide components that would end up inside themselves
+  const placeableComponents = components.filter(c => 
+    !editStack.some(frame => componentDependsOn(components, c.id, frame.componentId))
+  );
+
   return (
     <div className="relative w-screen h-screen bg-[#1e1e1e] overflow-hidden">
       <Toolbar 
         onSelectTool={selectTool} 
         currentMode={interaction.mode} 
         selectedGateType={interaction.placingType}
+        selectedComponentId={interaction.placingComponentId}
+        customComponents={placeableComponents}
+        canCreateComponent={selectedNodeIds.length > 0}
         onSave={handleSaveProject}
         onLoad={handleLoadProject}
+        onExportVerilog={handleExportVerilog}
+        onImportNetlist={handleImportNetlist}
         onOpenKarnaugh={() => setIsKarnaughOpen(true)}
+        onOpenExpression={() => setIsExpressionOpen(true)}
+        onCreateComponent={handleCreateComponent}
+        onAnalyseSelection={handleAnalyseSelection}
+        isAnalyzerOpen={isAnalyzerOpen}
+        onToggleAnalyzer={() => setIsAnalyzerOpen(open => !open)}
+        isTestPanelOpen={isTestPanelOpen}
+        onToggleTests={() => setIsTestPanelOpen(open => !open)}
+        wireStyle={wireStyle}
+        onWireStyleChange={handleWireStyleChange}
+        selectedWireCount={selectedWireIds.length}
+        projects={projects}
+        currentProjectId={currentProjectId}
+        onNewProject={handleNewProject}
+        onOpenProject={handleOpenProject}
+        onRenameProject={handleRenameProject}
+        onDuplicateProject={handleDuplicateProject}
+        onDeleteProject={handleDeleteProject}
       />
+
+      {editStack.length > 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-zinc-900/90 backdrop-blur-md border border-amber-500/50 rounded-lg shadow-2xl px-4 py-2">
+          <span className="text-xs font-mono text-zinc-400">
+            {['Main', ...editStack.map(frame => components.find(c => c.id === frame.componentId)?.name ?? '?')].join(' / ')}
+          </span>
+          <button
+            onClick={finishEditingComponent}
+            className="px-3 py-1 rounded text-xs font-bold bg-amber-600 hover:bg-amber-500 text-white transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      )}
       
       <div 
         ref={containerRef} 
@@ -705,6 +1658,7 @@ const App: React.FC = () => {
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
           onContextMenu={handleContextMenu}
+          onDoubleClick={handleDoubleClick}
           onWheel={handleWheel}
           className="block"
         />
@@ -716,6 +1670,59 @@ const App: React.FC = () => {
         onGenerate={handleKarnaughGenerate}
       />
 
+      <ExpressionModal
+        isOpen={isExpressionOpen}
+        onClose={() => setIsExpressionOpen(false)}
+        onGenerate={handleExpressionGenerate}
+      />
+
+      <AnalysisModal
+        analysis={analysis}
+        onClose={() => setAnalysis(null)}
+      />
+
+      <DiagnosticsPanel
+        diagnostics={diagnostics}
+        nodes={nodes}
+        wires={wires}
+        onSelectNodes={(ids) => {
+          setSelectedNodeIds(ids);
+          setSelectedWireIds([]);
+        }}
+      />
+
+      <SimulationControls
+        isRunning={isRunning}
+        speed={speed}
+        time={simTime}
+        onToggleRunning={() => setIsRunning(running => !running)}
+        onStep={handleStepSimulation}
+        onReset={handleResetSimulation}
+        onSpeedChange={setSpeed}
+      />
+
+      <TestVectorPanel
+        isOpen={isTestPanelOpen}
+        vectors={testVectors}
+        report={testReport}
+        selectedRow={selectedTestRow}
+        onSelectRow={setSelectedTestRow}
+        onImportCsv={handleImportTestVectors}
+        onRun={handleRunTests}
+        onClearVectors={handleClearTestVectors}
+        onClose={() => setIsTestPanelOpen(false)}
+      />
+
+      <WaveformPanel
+        isOpen={isAnalyzerOpen}
+        capture={capture}
+        canAddSelection={selectedNodeIds.length + selectedWireIds.length > 0}
+        onAddSelection={handleProbeSelection}
+        onRemoveProbe={(probeId) => setCapture(c => removeProbe(c, probeId))}
+        onClear={() => setCapture(c => clearSamples(c, nodes, wires))}
+        onClose={() => setIsAnalyzerOpen(false)}
+      />
+
       {contextMenu && (
         <ContextMenu 
           x={contextMenu.x} 
@@ -723,10 +1730,20 @@ const App: React.FC = () => {
           nodeType={nodes.find(n => n.id === contextMenu.nodeId)?.type}
           currentColor={nodes.find(n => n.id === contextMenu.nodeId)?.color}
           inputCount={nodes.find(n => n.id === contextMenu.nodeId)?.inputs.length}
+          delay={contextMenuNode ? getNodeDelay(contextMenuNode) : undefined}
           onColorChange={(color) => {
+             recordHistory();
              setNodes(prev => prev.map(n => n.id === contextMenu.nodeId ? { ...n, color } : n));
           }}
           onInputCountChange={handleInputCountChange}
+          onDelayChange={handleDelayChange}
+          clock={contextMenuNode?.type === GateType.CLOCK ? getClockSettings(contextMenuNode) : undefined}
+          onClockChange={handleClockChange}
+          bitWidth={contextMenuNode ? getBitWidth(contextMenuNode) : undefined}
+          onBitWidthChange={handleBitWidthChange}
+          onEditComponent={() => enterComponent(contextMenu.nodeId)}
+          onRename={() => handleRenameNode(contextMenu.nodeId)}
+          onAddProbe={() => handleProbeNode(contextMenu.nodeId)}
           onDelete={deleteSelected}
           onDuplicate={duplicateSelected}
           onClose={() => setContextMenu(null)}
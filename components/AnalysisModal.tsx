@@ -0,0 +1,122 @@
+import React from 'react';
+import { X, ScanSearch, Calculator, AlertTriangle } from 'lucide-react';
+import { CircuitAnalysis } from '../services/circuitAnalysis';
+
+interface AnalysisModalProps {
+  analysis: CircuitAnalysis | null;
+  onClose: () => void;
+}
+
+export const AnalysisModal: React.FC<AnalysisModalProps> = ({ analysis, onClose }) => {
+  if (!analysis) return null;
+
+  const { inputNames, outputNames, rows, equations, unknownOutputs, isSequential } = analysis;
+  const columns = `repeat(${inputNames.length}, minmax(2rem, 1fr)) repeat(${outputNames.length}, minmax(3rem, 1.5fr))`;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-4 border-b border-zinc-700 flex justify-between items-center bg-zinc-800/50 rounded-t-xl">
+          <div className="flex items-center gap-2">
+            <div className="bg-emerald-600 p-1.5 rounded-md">
+                <ScanSearch size={18} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Circuit Analysis</h2>
+              <p className="text-xs text-zinc-400">Circuit &rarr; Truth Table &rarr; Equation</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white transition"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 flex-1 overflow-y-auto flex gap-6 flex-col md:flex-row">
+
+          {/* Equations */}
+          <div className="w-full md:w-2/5 flex flex-col gap-4">
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 shadow-inner">
+               <div className="flex items-center gap-2 text-zinc-500 mb-2">
+                  <Calculator size={14} />
+                  <span className="text-xs uppercase font-bold">Minimal Sum of Products</span>
+               </div>
+               <div className="space-y-2">
+                 {outputNames.map((name, o) => (
+                   <div key={name} className="font-mono text-sm text-green-400 break-words leading-tight">
+                     {name} = {equations[o]}
+                     {unknownOutputs[o] && <span className="text-red-400"> *</span>}
+                   </div>
+                 ))}
+               </div>
+               <p className="text-[10px] text-zinc-600 mt-2 italic">
+                  Calculated via Quine-McCluskey optimization.
+               </p>
+            </div>
+
+            {(isSequential || unknownOutputs.some(Boolean)) && (
+              <div className="p-3 bg-amber-900/20 rounded-lg border border-amber-700/40 text-xs text-amber-300 space-y-2">
+                {isSequential && (
+                  <div className="flex gap-2">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    <span>The selection holds memory elements: the table reflects their current state only.</span>
+                  </div>
+                )}
+                {unknownOutputs.some(Boolean) && (
+                  <div className="flex gap-2">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    <span>* Some rows are unknown (X), floating or unstable; they count as 0 in the equation.</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Truth Table */}
+          <div className="w-full md:w-3/5 bg-zinc-950 border border-zinc-800 rounded-lg overflow-hidden flex flex-col">
+            <div className="grid bg-zinc-900 border-b border-zinc-800 text-zinc-400 font-mono text-xs font-bold py-2 px-4 sticky top-0"
+                 style={{ gridTemplateColumns: columns }}>
+              {inputNames.map(v => <div key={`in-${v}`} className="text-center truncate">{v}</div>)}
+              {outputNames.map(v => <div key={`out-${v}`} className="text-center truncate text-emerald-400">{v}</div>)}
+            </div>
+
+            <div className="overflow-y-auto flex-1 max-h-[400px]">
+              {rows.map((values, idx) => (
+                <div
+                  key={idx}
+                  className="grid items-center py-1.5 px-4 font-mono text-sm border-b border-zinc-800/50 hover:bg-zinc-800"
+                  style={{ gridTemplateColumns: columns }}
+                >
+                  {inputNames.map((v, bitIdx) => {
+                    const bit = (idx >> (inputNames.length - 1 - bitIdx)) & 1;
+                    return (
+                      <div key={v} className={`text-center ${bit ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                        {bit}
+                      </div>
+                    );
+                  })}
+                  {values.map((value, o) => (
+                    <div
+                      key={o}
+                      className={`text-center font-bold ${
+                        value === 'X' ? 'text-red-400' : value ? 'text-emerald-400' : 'text-zinc-500'
+                      }`}
+                    >
+                      {value}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+        </div>
+      </div>
+    </div>
+  );
+};
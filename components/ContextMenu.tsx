@@ -1,7 +1,15 @@
 import React, { useEffect, useRef } from 'react';
-import { Copy, Trash2, Minus, Plus } from 'lucide-react';
+import { Copy, Trash2, Minus, Plus, Pencil, Tag, Activity } from 'lucide-react';
 import { GateType } from '../types';
 import { LED_COLORS } from '../constants';
+import { supportsBusWidth, MAX_BIT_WIDTH } from '../services/buses';
+import {
+  ClockSettings,
+  MIN_CLOCK_FREQUENCY,
+  MAX_CLOCK_FREQUENCY,
+  MIN_DUTY_CYCLE,
+  MAX_DUTY_CYCLE
+} from '../services/clocks';
 
 interface ContextMenuProps {
   x: number;
@@ -9,8 +17,17 @@ interface ContextMenuProps {
   nodeType?: GateType;
   currentColor?: string;
   inputCount?: number;
+  delay?: number;
+  bitWidth?: number;
+  clock?: ClockSettings;
   onColorChange?: (color: string) => void;
   onInputCountChange?: (delta: number) => void;
+  onDelayChange?: (delta: number) => void;
+  onBitWidthChange?: (delta: number) => void;
+  onClockChange?: (field: keyof ClockSettings, delta: number) => void;
+  onEditComponent?: () => void;
+  onRename?: () => void;
+  onAddProbe?: () => void;
   onDuplicate: () => void;
   onDelete: () => void;
   onClose: () => void;
@@ -22,8 +39,17 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
   nodeType, 
   currentColor, 
   inputCount,
+  delay,
+  bitWidth,
+  clock,
   onColorChange, 
   onInputCountChange,
+  onDelayChange,
+  onBitWidthChange,
+  onClockChange,
+  onEditComponent,
+  onRename,
+  onAddProbe,
   onDuplicate, 
   onDelete, 
   onClose 
@@ -50,6 +76,12 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
     GateType.XOR
   ].includes(nodeType);
 
+  // Splitters / mergers need at least two bits to be useful
+  const minBitWidth = nodeType === GateType.SPLITTER || nodeType === GateType.MERGER ? 2 : 1;
+
+  // Sources change state by themselves, so a propagation delay is meaningless for them
+  const supportsDelay = nodeType && nodeType !== GateType.INPUT_SWITCH && nodeType !== GateType.CLOCK;
+
   return (
     <div 
       ref={menuRef}
@@ -98,6 +130,115 @@ export const ContextMenu: React.FC<ContextMenuProps> = ({
         </div>
       )}
 
+      {/* Bus Width Selector */}
+      {nodeType && supportsBusWidth(nodeType) && onBitWidthChange && bitWidth !== undefined && (
+        <div className="px-4 py-2 border-b border-zinc-700">
+          <div className="text-[10px] text-zinc-500 mb-2 uppercase font-semibold">Bus Width: {bitWidth}</div>
+          <div className="flex items-center justify-between bg-zinc-700 rounded p-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); onBitWidthChange(-1); }}
+              disabled={bitWidth <= minBitWidth}
+              className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${bitWidth <= minBitWidth ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <Minus size={14} />
+            </button>
+            <span className="text-xs font-mono text-white">{bitWidth}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onBitWidthChange(1); }}
+              disabled={bitWidth >= MAX_BIT_WIDTH}
+              className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${bitWidth >= MAX_BIT_WIDTH ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Propagation Delay Selector */}
+      {supportsDelay && onDelayChange && delay !== undefined && (
+        <div className="px-4 py-2 border-b border-zinc-700">
+          <div className="text-[10px] text-zinc-500 mb-2 uppercase font-semibold">Delay: {delay}</div>
+          <div className="flex items-center justify-between bg-zinc-700 rounded p-1">
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelayChange(-1); }}
+              disabled={delay <= 0}
+              className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${delay <= 0 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <Minus size={14} />
+            </button>
+            <span className="text-xs font-mono text-white">{delay}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelayChange(1); }}
+              disabled={delay >= 100}
+              className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${delay >= 100 ? 'opacity-30 cursor-not-allowed' : ''}`}
+            >
+              <Plus size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Clock Timing */}
+      {nodeType === GateType.CLOCK && onClockChange && clock && (
+        <div className="px-4 py-2 border-b border-zinc-700 space-y-1.5">
+          <div className="text-[10px] text-zinc-500 uppercase font-semibold">Clock</div>
+          {([
+            ['frequency', 'Freq', `${+clock.frequency.toFixed(4)} Hz`, clock.frequency <= MIN_CLOCK_FREQUENCY, clock.frequency >= MAX_CLOCK_FREQUENCY],
+            ['dutyCycle', 'Duty', `${clock.dutyCycle}%`, clock.dutyCycle <= MIN_DUTY_CYCLE, clock.dutyCycle >= MAX_DUTY_CYCLE],
+            ['phase', 'Phase', `${clock.phase}°`, false, false]
+          ] as [keyof ClockSettings, string, string, boolean, boolean][]).map(([field, label, text, atMin, atMax]) => (
+            <div key={field} className="flex items-center gap-2">
+              <span className="w-10 text-[10px] text-zinc-400">{label}</span>
+              <div className="flex-1 flex items-center justify-between bg-zinc-700 rounded p-0.5">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onClockChange(field, -1); }}
+                  disabled={atMin}
+                  className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${atMin ? 'opacity-30 cursor-not-allowed' : ''}`}
+                >
+                  <Minus size={12} />
+                </button>
+                <span className="text-xs font-mono text-white">{text}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onClockChange(field, 1); }}
+                  disabled={atMax}
+                  className={`p-1 rounded hover:bg-zinc-600 text-zinc-200 transition-colors ${atMax ? 'opacity-30 cursor-not-allowed' : ''}`}
+                >
+                  <Plus size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nodeType === GateType.SUBCIRCUIT && onEditComponent && (
+        <button 
+          onClick={(e) => { e.stopPropagation(); onEditComponent(); }}
+          className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white flex items-center gap-2 transition-colors cursor-pointer"
+        >
+          <Pencil size={14} />
+          Edit Component
+        </button>
+      )}
+      {/* Subcircuits take their name from the component definition */}
+      {nodeType !== GateType.SUBCIRCUIT && onRename && (
+        <button 
+          onClick={(e) => { e.stopPropagation(); onRename(); }}
+          className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white flex items-center gap-2 transition-colors cursor-pointer"
+        >
+          <Tag size={14} />
+          Rename
+        </button>
+      )}
+      {onAddProbe && (
+        <button 
+          onClick={(e) => { e.stopPropagation(); onAddProbe(); }}
+          className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white flex items-center gap-2 transition-colors cursor-pointer"
+        >
+          <Activity size={14} />
+          Add Probe
+        </button>
+      )}
       <button 
         onClick={(e) => { e.stopPropagation(); onDuplicate(); }}
         className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-700 hover:text-white flex items-center gap-2 transition-colors cursor-pointer"
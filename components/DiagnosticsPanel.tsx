@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RefreshCcw, ChevronDown, ChevronUp, Zap } from 'lucide-react';
+import { CircuitDiagnostics, CircuitNode, Wire } from '../types';
+
+interface DiagnosticsPanelProps {
+  diagnostics: CircuitDiagnostics;
+  nodes: CircuitNode[];
+  wires: Wire[];
+  onSelectNodes: (nodeIds: string[]) => void;
+}
+
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ diagnostics, nodes, wires, onSelectNodes }) => {
+  const [collapsed, setCollapsed] = useState(false);
+
+  const { loops, unstableNodeIds, contentionWireIds } = diagnostics;
+  if (loops.length === 0 && unstableNodeIds.length === 0 && contentionWireIds.length === 0) return null;
+
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+  const oscillatingCount = loops.filter(l => l.oscillating).length;
+
+  // Group the fighting drivers by the input they meet on
+  const contentions = new Map<string, Wire[]>();
+  wires.filter(w => contentionWireIds.includes(w.id)).forEach(w => {
+    const key = `${w.targetNodeId}:${w.targetPinIndex}`;
+    contentions.set(key, [...(contentions.get(key) || []), w]);
+  });
+
+  return (
+    <div className="absolute bottom-4 right-4 w-72 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl z-10 overflow-hidden">
+      <button
+        onClick={() => setCollapsed(c => !c)}
+        className="w-full flex items-center gap-2 px-4 py-2 bg-zinc-800/50 border-b border-zinc-700 text-left"
+      >
+        <AlertTriangle size={14} className={oscillatingCount > 0 || unstableNodeIds.length > 0 || contentions.size > 0 ? 'text-red-400' : 'text-amber-400'} />
+        <span className="text-xs uppercase font-semibold text-zinc-400 tracking-wider flex-1">Diagnostics</span>
+        <span className="text-[10px] font-mono text-zinc-500">{loops.length} loop{loops.length === 1 ? '' : 's'}</span>
+        {collapsed ? <ChevronUp size={14} className="text-zinc-500" /> : <ChevronDown size={14} className="text-zinc-500" />}
+      </button>
+
+      {!collapsed && (
+        <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+          {unstableNodeIds.length > 0 && (
+            <button
+              onClick={() => onSelectNodes(unstableNodeIds)}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-zinc-800 transition-colors"
+            >
+              <div className="text-xs font-bold text-red-400">Circuit did not settle</div>
+              <div className="text-[10px] text-zinc-500">
+                {unstableNodeIds.length} unstable node{unstableNodeIds.length === 1 ? '' : 's'}
+              </div>
+            </button>
+          )}
+
+          {Array.from(contentions.values()).map((drivers, i) => (
+            <button
+              key={`contention-${i}`}
+              onClick={() => onSelectNodes([...drivers.map(w => w.sourceNodeId), drivers[0].targetNodeId])}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-zinc-800 transition-colors"
+            >
+              <div className="flex items-center gap-1.5 text-xs font-bold text-fuchsia-400">
+                <Zap size={12} />
+                Bus contention
+              </div>
+              <div className="text-[10px] font-mono text-zinc-500 truncate">
+                {drivers.map(w => labelOf(w.sourceNodeId)).join(', ')} → {labelOf(drivers[0].targetNodeId)}
+              </div>
+            </button>
+          ))}
+
+          {loops.map((loop, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectNodes(loop.nodeIds)}
+              className="w-full text-left px-2 py-1.5 rounded hover:bg-zinc-800 transition-colors"
+            >
+              <div className={`flex items-center gap-1.5 text-xs font-bold ${loop.oscillating ? 'text-red-400' : 'text-amber-400'}`}>
+                <RefreshCcw size={12} />
+                {loop.oscillating ? 'Oscillating loop' : 'Stable feedback (latch)'}
+              </div>
+              <div className="text-[10px] font-mono text-zinc-500 truncate">
+                {loop.nodeIds.map(labelOf).join(' → ')}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
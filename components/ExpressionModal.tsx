@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import { X, Wand2, Calculator, Sigma, AlertTriangle } from 'lucide-react';
+import { parseExpression, expressionTruthTable, LogicExpression } from '../services/booleanExpression';
+import { minimiseSumOfProducts, termsToEquation } from '../services/quineMcCluskey';
+
+interface ExpressionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onGenerate: (expression: LogicExpression, variables: string[], minimise: boolean) => void;
+}
+
+export const ExpressionModal: React.FC<ExpressionModalProps> = ({ isOpen, onClose, onGenerate }) => {
+  const [text, setText] = useState<string>("(A & !B) | (C ^ D)");
+  const [minimise, setMinimise] = useState<boolean>(true);
+
+  const parsed = useMemo(() => parseExpression(text), [text]);
+
+  const truthTable = useMemo(
+    () => (parsed.expression ? expressionTruthTable(parsed.expression, parsed.variables) : []),
+    [parsed]
+  );
+
+  const equation = useMemo(() => {
+    if (!parsed.expression) return '';
+    const minterms = truthTable.map((val, idx) => val ? idx : -1).filter(idx => idx !== -1);
+    return termsToEquation(minimiseSumOfProducts(parsed.variables.length, minterms), parsed.variables);
+  }, [parsed, truthTable]);
+
+  if (!isOpen) return null;
+
+  const variables = parsed.variables;
+  const error = parsed.error;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="p-4 border-b border-zinc-700 flex justify-between items-center bg-zinc-800/50 rounded-t-xl">
+          <div className="flex items-center gap-2">
+            <div className="bg-purple-600 p-1.5 rounded-md">
+                <Sigma size={18} className="text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Expression Generator</h2>
+              <p className="text-xs text-zinc-400">Expression &rarr; Truth Table &rarr; Circuit</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-zinc-700 rounded text-zinc-400 hover:text-white transition"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 flex-1 overflow-y-auto flex gap-6 flex-col md:flex-row">
+
+          {/* Input & Preview */}
+          <div className="w-full md:w-1/2 flex flex-col gap-4">
+            <div>
+              <label className="block text-xs uppercase font-bold text-zinc-500 mb-2">Expression</label>
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                spellCheck={false}
+                autoFocus
+                className={`w-full bg-zinc-950 border rounded-lg px-3 py-2 font-mono text-sm text-white focus:outline-none ${
+                  error ? 'border-red-500/70' : 'border-zinc-700 focus:border-purple-500'
+                }`}
+              />
+              {error && (
+                <div className="mt-2 text-xs">
+                  {/* Caret under the offending character */}
+                  <pre className="font-mono text-zinc-400 whitespace-pre overflow-x-auto">
+                    {text || ' '}{'\n'}
+                    <span className="text-red-400">{' '.repeat(error.position)}^</span>
+                  </pre>
+                  <div className="flex items-center gap-1.5 text-red-400 mt-1">
+                    <AlertTriangle size={12} />
+                    <span>{error.message} (column {error.position + 1})</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={minimise}
+                onChange={(e) => setMinimise(e.target.checked)}
+                className="accent-purple-500"
+              />
+              Minimise with Quine-McCluskey
+            </label>
+
+            {/* Minimised Equation */}
+            <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 shadow-inner">
+               <div className="flex items-center gap-2 text-zinc-500 mb-2">
+                  <Calculator size={14} />
+                  <span className="text-xs uppercase font-bold">Minimal Sum of Products</span>
+               </div>
+               <div className="font-mono text-lg text-green-400 break-words leading-tight">
+                  {parsed.expression ? `Q = ${equation}` : '—'}
+               </div>
+            </div>
+
+            <div className="p-4 bg-zinc-800/50 rounded-lg border border-zinc-700/50">
+              <h3 className="text-sm font-bold text-zinc-300 mb-2">Syntax</h3>
+              <ul className="text-xs text-zinc-400 space-y-1 list-disc pl-4">
+                <li>NOT: <b>!A</b>, <b>~A</b> or <b>A'</b></li>
+                <li>AND: <b>A &amp; B</b>, <b>A * B</b> or <b>AB</b></li>
+                <li>OR: <b>A | B</b> or <b>A + B</b>; XOR: <b>A ^ B</b></li>
+                <li>Variables are single letters (optionally numbered, e.g. <b>X1</b>).</li>
+              </ul>
+            </div>
+          </div>
+
+          {/* Truth Table */}
+          <div className="w-full md:w-1/2 bg-zinc-950 border border-zinc-800 rounded-lg overflow-hidden flex flex-col">
+            <div className="grid bg-zinc-900 border-b border-zinc-800 text-zinc-400 font-mono text-xs font-bold py-2 px-4 sticky top-0"
+                 style={{ gridTemplateColumns: `repeat(${variables.length}, 1fr) 2fr` }}>
+              {variables.map(v => <div key={v} className="text-center">{v}</div>)}
+              <div className="text-center text-purple-400">Q</div>
+            </div>
+
+            <div className="overflow-y-auto flex-1 max-h-[400px]">
+              {truthTable.map((val, idx) => (
+                <div
+                  key={idx}
+                  className={`grid items-center py-1.5 px-4 font-mono text-sm border-b border-zinc-800/50 ${
+                    val ? 'bg-purple-900/10' : ''
+                  }`}
+                  style={{ gridTemplateColumns: `repeat(${variables.length}, 1fr) 2fr` }}
+                >
+                  {variables.map((v, bitIdx) => {
+                    const bit = (idx >> (variables.length - 1 - bitIdx)) & 1;
+                    return (
+                      <div key={v} className={`text-center ${bit ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                        {bit}
+                      </div>
+                    );
+                  })}
+                  <div className={`text-center font-bold ${val ? 'text-purple-400' : 'text-zinc-500'}`}>
+                    {val ? '1' : '0'}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-zinc-700 bg-zinc-800/50 rounded-b-xl flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white hover:bg-zinc-700"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => parsed.expression && onGenerate(parsed.expression, variables, minimise)}
+            disabled={!parsed.expression}
+            className="px-6 py-2 rounded-lg text-sm font-bold bg-purple-600 hover:bg-purple-500 text-white shadow-lg shadow-purple-900/20 flex items-center gap-2 transition-all hover:scale-105 disabled:opacity-40 disabled:hover:scale-100 disabled:cursor-not-allowed"
+          >
+            <Wand2 size={16} />
+            Generate Circuit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
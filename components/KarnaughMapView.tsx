@@ -0,0 +1,194 @@
+import React, { useState, useMemo } from 'react';
+import { TruthValue, termsToEquation, formatEquation } from '../services/quineMcCluskey';
+import { getKarnaughLayout, getCellIndex, getTermRects, formatGrayLabel } from '../services/karnaughMap';
+
+interface KarnaughMapViewProps {
+  numVars: number;
+  variableNames: string[];
+  outputName: string;
+  values: TruthValue[];
+  terms: string[]; // Chosen cover, drawn solid
+  primes: string[]; // Every prime implicant, drawn dashed when shown
+  complement: boolean; // Terms group the 0 cells (POS / NOR)
+  onToggle: (index: number) => void;
+}
+
+const CELL_SIZE = 36;
+const TERM_COLORS = ['#f87171', '#60a5fa', '#34d399', '#fbbf24', '#a78bfa', '#f472b6', '#22d3ee', '#fb923c'];
+
+export const KarnaughMapView: React.FC<KarnaughMapViewProps> = ({
+  numVars,
+  variableNames,
+  outputName,
+  values,
+  terms,
+  primes,
+  complement,
+  onToggle
+}) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [showPrimes, setShowPrimes] = useState(false);
+
+  const layout = useMemo(() => getKarnaughLayout(numVars), [numVars]);
+  const mapNames = variableNames.slice(0, layout.mapVars);
+  const rowNames = variableNames.slice(layout.mapVars, layout.mapVars + layout.rowVars);
+  const colNames = variableNames.slice(layout.mapVars + layout.rowVars, numVars);
+
+  // Cover terms first, then the remaining prime implicants; colours follow the cover order
+  const drawn = useMemo(() => {
+    const extra = showPrimes ? primes.filter(p => !terms.includes(p)) : [];
+    return [...terms, ...extra].map((term, i) => ({
+      term,
+      color: TERM_COLORS[i % TERM_COLORS.length],
+      inCover: i < terms.length,
+      rects: getTermRects(layout, term)
+    }));
+  }, [terms, primes, showPrimes, layout]);
+
+  const termText = (term: string) =>
+    complement ? formatEquation([term], variableNames, 'POS') : termsToEquation([term], variableNames);
+
+  // Two stacked maps sit side by side, four in a 2x2 block so neighbours differ in one variable
+  const mapColumns = layout.mapCodes.length === 1 ? 1 : 2;
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${mapColumns}, max-content)` }}>
+        {layout.mapCodes.map((code, map) => (
+          <div key={map}>
+            {layout.mapVars > 0 && (
+              <div className="text-xs font-mono text-zinc-500 mb-1">
+                {mapNames.join('')} = {formatGrayLabel(code, layout.mapVars)}
+              </div>
+            )}
+            <div className="flex">
+              {/* Row labels */}
+              <div className="flex flex-col" style={{ paddingTop: CELL_SIZE / 1.5 }}>
+                {layout.rowCodes.map(rowCode => (
+                  <div
+                    key={rowCode}
+                    className="flex items-center justify-end pr-1.5 text-[10px] font-mono text-zinc-500"
+                    style={{ height: CELL_SIZE }}
+                  >
+                    {formatGrayLabel(rowCode, layout.rowVars)}
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                {/* Column labels, with the axis variables in the corner */}
+                <div className="flex items-end relative" style={{ height: CELL_SIZE / 1.5 }}>
+                  <span className="absolute -left-7 top-0 text-[10px] font-mono text-zinc-400 whitespace-nowrap">
+                    {rowNames.join('')}\{colNames.join('')}
+                  </span>
+                  {layout.colCodes.map(colCode => (
+                    <div
+                      key={colCode}
+                      className="text-center text-[10px] font-mono text-zinc-500 pb-0.5"
+                      style={{ width: CELL_SIZE }}
+                    >
+                      {formatGrayLabel(colCode, layout.colVars)}
+                    </div>
+                  ))}
+                </div>
+
+                <div
+                  className="relative grid border border-zinc-600"
+                  style={{ gridTemplateColumns: `repeat(${layout.colCodes.length}, ${CELL_SIZE}px)` }}
+                >
+                  {layout.rowCodes.map((_, row) => layout.colCodes.map((_, col) => {
+                    const index = getCellIndex(layout, map, row, col);
+                    const value = values[index] ?? 0;
+                    return (
+                      <button
+                        key={`${row}-${col}`}
+                        onClick={() => onToggle(index)}
+                        title={`Row ${index}`}
+                        className={`relative border border-zinc-800 font-mono text-sm font-bold transition-colors ${
+                          value === 1
+                            ? 'bg-blue-900/40 text-white hover:bg-blue-900/60'
+                            : value === 'X'
+                              ? 'bg-amber-900/20 text-amber-300 hover:bg-amber-900/40'
+                              : 'bg-zinc-950 text-zinc-600 hover:bg-zinc-800'
+                        }`}
+                        style={{ height: CELL_SIZE }}
+                      >
+                        {value}
+                        <span className="absolute bottom-0 right-0.5 text-[8px] font-normal text-zinc-600">{index}</span>
+                      </button>
+                    );
+                  }))}
+
+                  {/* Implicant groups; clicks go through to the cells */}
+                  {drawn.map(({ term, color, inCover, rects }, i) => rects.filter(r => r.map === map).map((r, j) => {
+                    const inset = 3 + (i % 4) * 2;
+                    const dimmed = hovered !== null && hovered !== term;
+                    return (
+                      <div
+                        key={`${term}-${j}`}
+                        className="absolute rounded-md pointer-events-none transition-opacity"
+                        style={{
+                          left: r.col * CELL_SIZE + inset,
+                          top: r.row * CELL_SIZE + inset,
+                          width: r.colSpan * CELL_SIZE - inset * 2,
+                          height: r.rowSpan * CELL_SIZE - inset * 2,
+                          border: `2px ${inCover ? 'solid' : 'dashed'} ${color}`,
+                          backgroundColor: hovered === term ? `${color}33` : 'transparent',
+                          opacity: dimmed ? 0.15 : 1
+                        }}
+                      />
+                    );
+                  }))}
+                </div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Equation, one chip per term; hovering a chip highlights its group */}
+      <div className="font-mono text-sm text-zinc-400 flex flex-wrap items-center gap-1">
+        <span>{outputName} =</span>
+        {terms.length === 0 && <span className="text-green-400">{complement ? '1' : '0'}</span>}
+        {drawn.filter(d => d.inCover).map(({ term, color }, i) => (
+          <React.Fragment key={term}>
+            {i > 0 && !complement && <span>+</span>}
+            <span
+              onMouseEnter={() => setHovered(term)}
+              onMouseLeave={() => setHovered(null)}
+              className="px-1.5 py-0.5 rounded border cursor-default"
+              style={{ borderColor: color, color, backgroundColor: hovered === term ? `${color}22` : 'transparent' }}
+            >
+              {termText(term)}
+            </span>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showPrimes}
+          onChange={(e) => setShowPrimes(e.target.checked)}
+          className="accent-blue-500"
+        />
+        Show all prime implicants ({primes.length})
+      </label>
+      {showPrimes && primes.length > terms.length && (
+        <div className="font-mono text-xs text-zinc-500 flex flex-wrap gap-1">
+          {drawn.filter(d => !d.inCover).map(({ term, color }) => (
+            <span
+              key={term}
+              onMouseEnter={() => setHovered(term)}
+              onMouseLeave={() => setHovered(null)}
+              className="px-1.5 py-0.5 rounded border border-dashed cursor-default"
+              style={{ borderColor: color, color }}
+            >
+              {termText(term)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,52 +1,198 @@
-import React, { useState, useEffect } from 'react';
-import { X, Wand2, RefreshCw, Calculator } from 'lucide-react';
-import { solveQuineMcCluskey, termsToEquation } from '../services/quineMcCluskey';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Wand2, RefreshCw, Calculator, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  minimiseTruthTables,
+  formatEquation,
+  generateCircuitFromTerms,
+  countGates,
+  formatMintermList,
+  parseMintermList,
+  truthTableToFunction,
+  solveQuineMcCluskey,
+  usesComplement,
+  TruthValue,
+  SynthesisForm
+} from '../services/quineMcCluskey';
+import { MAX_KMAP_VARIABLES } from '../services/karnaughMap';
+import { KarnaughMapView } from './KarnaughMapView';
 
 interface KarnaughModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onGenerate: (numVars: number, truthTable: boolean[]) => void;
+  onGenerate: (numVars: number, truthTables: TruthValue[][], form: SynthesisForm, variableNames: string[]) => void;
 }
 
+const MAX_OUTPUTS = 4;
+const MAX_VARIABLES = 10;
+const PAGE_SIZE = 32; // Truth table rows shown at once
+const DEFAULT_NAMES = 'ABCDEFGHIJ'.split('');
+const GATE_COUNT_DELAY = 300; // ms without edits before the other forms are compared
+
+const VIEWS: { view: 'kmap' | 'table' | 'list', label: string }[] = [
+  { view: 'kmap', label: 'K-Map' },
+  { view: 'table', label: 'Table' },
+  { view: 'list', label: 'List' }
+];
+
+const FORMS: { form: SynthesisForm, label: string, title: string }[] = [
+  { form: 'SOP', label: 'SOP', title: 'Sum of products (AND-OR)' },
+  { form: 'POS', label: 'POS', title: 'Product of sums (OR-AND)' },
+  { form: 'NAND', label: 'NAND', title: 'NAND gates only' },
+  { form: 'NOR', label: 'NOR', title: 'NOR gates only' }
+];
+
+// Cells cycle 0 -> 1 -> X (don't care) -> 0
+const nextValue = (value: TruthValue): TruthValue => value === 0 ? 1 : value === 1 ? 'X' : 0;
+
 export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, onGenerate }) => {
   const [numVars, setNumVars] = useState<number>(3);
-  const [truthTable, setTruthTable] = useState<boolean[]>([]);
-  const [equation, setEquation] = useState<string>("0");
+  const [numOutputs, setNumOutputs] = useState<number>(1);
+  const [form, setForm] = useState<SynthesisForm>('SOP');
+  const [truthTables, setTruthTables] = useState<TruthValue[][]>([]); // [output][row]
+  const [namesText, setNamesText] = useState<string>('');
+  const [view, setView] = useState<'kmap' | 'table' | 'list'>('kmap');
+  const [mapOutput, setMapOutput] = useState<number>(0);
+  const [page, setPage] = useState<number>(0);
+  const [listDrafts, setListDrafts] = useState<Record<string, string>>({}); // Edited list fields, by "output:kind"
+  const [listError, setListError] = useState<string>('');
+
+  const emptyTable = (): TruthValue[] => new Array(Math.pow(2, numVars)).fill(0);
 
-  // Initialize truth table when numVars changes
+  // Initialize truth tables when numVars changes
   useEffect(() => {
-    setTruthTable(new Array(Math.pow(2, numVars)).fill(false));
+    setTruthTables(Array.from({ length: numOutputs }, emptyTable));
+    setPage(0);
+    setListDrafts({});
   }, [numVars]);
 
-  // Update Equation when TruthTable changes
+  // Added outputs start empty, removed ones are dropped
   useEffect(() => {
-    const minterms = truthTable
-      .map((val, idx) => val ? idx : -1)
-      .filter(idx => idx !== -1);
-    
-    const terms = solveQuineMcCluskey(numVars, minterms);
-    const variableNames = ['A', 'B', 'C', 'D'].slice(0, numVars);
-    const eq = termsToEquation(terms, variableNames);
-    setEquation(eq);
-  }, [truthTable, numVars]);
+    setTruthTables(prev => Array.from({ length: numOutputs }, (_, o) => prev[o] || emptyTable()));
+    setMapOutput(prev => Math.min(prev, numOutputs - 1));
+  }, [numOutputs]);
+
+  const outputNames = numOutputs === 1 ? ['Q'] : Array.from({ length: numOutputs }, (_, i) => `Q${i}`);
+
+  // User names replace the defaults one by one; blanks and duplicates keep the default
+  const variableNames = useMemo(() => {
+    const typed = namesText.split(/[\s,]+/).filter(Boolean);
+    const used = new Set<string>();
+    return DEFAULT_NAMES.slice(0, numVars).map((fallback, i) => {
+      const name = typed[i] && /^[A-Za-z_][A-Za-z0-9_]*$/.test(typed[i]) && !used.has(typed[i]) ? typed[i] : fallback;
+      used.add(name);
+      return name;
+    });
+  }, [namesText, numVars]);
+
+  const isReady = truthTables.length === numOutputs && truthTables.every(t => t.length === Math.pow(2, numVars));
+
+  // Minimised terms of the current tables, by polarity: SOP / NAND share theirs, as do POS / NOR.
+  // Kept between renders so switching forms doesn't minimise the same tables again.
+  const termsCache = useRef<{ tables: TruthValue[][]; terms: Map<boolean, string[][]> }>({ tables: [], terms: new Map() });
+  const termsFor = (complement: boolean): string[][] => {
+    if (termsCache.current.tables !== truthTables) termsCache.current = { tables: truthTables, terms: new Map() };
+    const { terms } = termsCache.current;
+    if (!terms.has(complement)) terms.set(complement, minimiseTruthTables(numVars, truthTables, complement ? 'POS' : 'SOP'));
+    return terms.get(complement)!;
+  };
+
+  const complement = usesComplement(form);
+  // Update Equations when the truth tables change; outputs are minimised together
+  const outputTerms = useMemo(
+    () => (isReady ? termsFor(complement) : []),
+    [truthTables, numVars, isReady, complement]
+  );
+
+  const gatesOf = (terms: string[][], f: SynthesisForm) =>
+    countGates(generateCircuitFromTerms(numVars, terms, { x: 0, y: 0 }, variableNames, undefined, f).nodes);
+  const selectedGateCount = useMemo(() => gatesOf(outputTerms, form), [outputTerms, form, numVars, variableNames]);
+
+  // Gate count of every form, so the implementations can be compared. The other polarity is
+  // minimised once editing pauses, which keeps cell clicks on large tables responsive.
+  const [gateCounts, setGateCounts] = useState<Partial<Record<SynthesisForm, number>>>({});
+  useEffect(() => {
+    setGateCounts({});
+    if (!isReady) return;
+    const timer = setTimeout(() => {
+      const result: Partial<Record<SynthesisForm, number>> = {};
+      FORMS.forEach(({ form: f }) => {
+        result[f] = gatesOf(termsFor(usesComplement(f)), f);
+      });
+      setGateCounts(result);
+    }, GATE_COUNT_DELAY);
+    return () => clearTimeout(timer);
+  }, [truthTables, numVars, isReady]);
+
+  // All prime implicants of the output shown on the K-map (of its 0s for POS / NOR)
+  const mapPrimes = useMemo(() => {
+    const table = truthTables[mapOutput];
+    if (!table || !isReady) return [];
+    const values = usesComplement(form)
+      ? table.map(v => (v === 'X' ? 'X' : v === 1 ? 0 : 1) as TruthValue)
+      : table;
+    const { minterms, dontCares } = truthTableToFunction(values);
+    return solveQuineMcCluskey(numVars, minterms, dontCares);
+  }, [truthTables, mapOutput, form, numVars, isReady]);
+
+  const sharedTerms = useMemo(() => {
+    const counts = new Map<string, number>();
+    outputTerms.flat().forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+    return Array.from(counts.entries()).filter(([t, n]) => n > 1 && t.replace(/-/g, '').length > 1).length;
+  }, [outputTerms]);
 
   if (!isOpen) return null;
 
-  const handleToggle = (index: number) => {
-    const newTable = [...truthTable];
-    newTable[index] = !newTable[index];
-    setTruthTable(newTable);
+  const handleToggle = (output: number, index: number) => {
+    const newTables = truthTables.map(t => [...t]);
+    newTables[output][index] = nextValue(newTables[output][index]);
+    setTruthTables(newTables);
   };
 
   const getBinaryString = (index: number) => {
     return index.toString(2).padStart(numVars, '0');
   };
 
-  const variableNames = ['A', 'B', 'C', 'D'].slice(0, numVars);
+  const columns = `repeat(${numVars}, 1fr) repeat(${numOutputs}, 1.5fr)`;
+  // Larger functions have no K-map; their tables open in the truth table view
+  const activeView = view === 'kmap' && numVars > MAX_KMAP_VARIABLES ? 'table' : view;
+  const rowCount = Math.pow(2, numVars);
+  const pageCount = Math.ceil(rowCount / PAGE_SIZE);
+  const currentPage = Math.min(page, pageCount - 1);
+  const firstRow = currentPage * PAGE_SIZE;
+  const pageRows = Array.from({ length: Math.min(PAGE_SIZE, rowCount - firstRow) }, (_, i) => firstRow + i);
+
+  // List entry: one field of minterms and one of don't-cares per output
+  const listValue = (output: number, kind: 'ones' | 'dontCares') => {
+    const key = `${output}:${kind}`;
+    if (key in listDrafts) return listDrafts[key];
+    const fn = truthTables[output] ? truthTableToFunction(truthTables[output]) : { minterms: [], dontCares: [] };
+    return formatMintermList(kind === 'ones' ? fn.minterms : fn.dontCares);
+  };
+
+  const applyList = (output: number, kind: 'ones' | 'dontCares') => {
+    const key = `${output}:${kind}`;
+    if (!(key in listDrafts)) return;
+    const result = parseMintermList(listDrafts[key], rowCount);
+    if (result.error) {
+      setListError(`${outputNames[output]}: ${result.error}`);
+      return;
+    }
+    const newTables = truthTables.map(t => [...t]);
+    const value: TruthValue = kind === 'ones' ? 1 : 'X';
+    newTables[output] = newTables[output].map(v => (v === value ? 0 : v));
+    result.indices!.forEach(m => { newTables[output][m] = value; });
+    setTruthTables(newTables);
+    setListError('');
+    setListDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
 
   return (
     <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+      <div className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
         
         {/* Header */}
         <div className="p-4 border-b border-zinc-700 flex justify-between items-center bg-zinc-800/50 rounded-t-xl">
@@ -55,7 +201,7 @@ export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, o
                 <Wand2 size={18} className="text-white" />
             </div>
             <div>
-              <h2 className="text-lg font-bold text-white">Truth Table Generator</h2>
+              <h2 className="text-lg font-bold text-white">Truth Table &amp; K-Map Generator</h2>
               <p className="text-xs text-zinc-400">Define logic &rarr; Equation &rarr; Circuit</p>
             </div>
           </div>
@@ -74,13 +220,37 @@ export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, o
           <div className="w-full md:w-1/3 flex flex-col gap-6">
             <div>
               <label className="block text-xs uppercase font-bold text-zinc-500 mb-2">Variables</label>
+              <div className="flex gap-2">
+                <select
+                  value={numVars}
+                  onChange={(e) => setNumVars(Number(e.target.value))}
+                  className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white focus:outline-none focus:border-blue-500"
+                >
+                  {Array.from({ length: MAX_VARIABLES - 1 }, (_, i) => i + 2).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={namesText}
+                  onChange={(e) => setNamesText(e.target.value)}
+                  placeholder={DEFAULT_NAMES.slice(0, numVars).join(', ')}
+                  title="Variable names, most significant first"
+                  spellCheck={false}
+                  className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm font-mono text-white placeholder-zinc-500 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase font-bold text-zinc-500 mb-2">Outputs</label>
               <div className="flex bg-zinc-800 p-1 rounded-lg">
-                {[2, 3, 4].map(n => (
+                {Array.from({ length: MAX_OUTPUTS }, (_, i) => i + 1).map(n => (
                   <button
                     key={n}
-                    onClick={() => setNumVars(n)}
+                    onClick={() => setNumOutputs(n)}
                     className={`flex-1 py-1.5 text-sm font-mono rounded ${
-                      numVars === n ? 'bg-blue-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'
+                      numOutputs === n ? 'bg-blue-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'
                     }`}
                   >
                     {n}
@@ -89,24 +259,52 @@ export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, o
               </div>
             </div>
 
+            <div>
+              <label className="block text-xs uppercase font-bold text-zinc-500 mb-2">Form</label>
+              <div className="grid grid-cols-4 gap-1 bg-zinc-800 p-1 rounded-lg">
+                {FORMS.map(f => (
+                  <button
+                    key={f.form}
+                    onClick={() => setForm(f.form)}
+                    title={f.title}
+                    className={`flex flex-col items-center py-1.5 text-xs font-mono rounded ${
+                      form === f.form ? 'bg-blue-600 text-white shadow-md' : 'text-zinc-400 hover:text-white'
+                    }`}
+                  >
+                    {f.label}
+                    <span className={`text-[10px] ${form === f.form ? 'text-blue-200' : 'text-zinc-500'}`}>
+                      {f.form === form ? selectedGateCount : gateCounts[f.form] ?? '…'} gates
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Equation Output Box */}
             <div className="bg-zinc-950 border border-zinc-800 rounded-lg p-4 shadow-inner">
                <div className="flex items-center gap-2 text-zinc-500 mb-2">
                   <Calculator size={14} />
                   <span className="text-xs uppercase font-bold">Boolean Equation</span>
                </div>
-               <div className="font-mono text-lg text-green-400 break-words leading-tight">
-                  Q = {equation}
+               <div className="space-y-1">
+                 {outputNames.map((name, o) => (
+                   <div key={name} className="font-mono text-lg text-green-400 break-words leading-tight">
+                      {name} = {outputTerms[o] ? formatEquation(outputTerms[o], variableNames, form) : '0'}
+                   </div>
+                 ))}
                </div>
                <p className="text-[10px] text-zinc-600 mt-2 italic">
-                  Calculated via Quine-McCluskey optimization.
+                  Calculated via Quine-McCluskey optimization. {selectedGateCount} gates.
+                  {sharedTerms > 0 && ` ${sharedTerms} term${sharedTerms > 1 ? 's' : ''} shared between outputs.`}
                </p>
             </div>
 
             <div className="p-4 bg-zinc-800/50 rounded-lg border border-zinc-700/50">
               <h3 className="text-sm font-bold text-zinc-300 mb-2">Instructions</h3>
               <ul className="text-xs text-zinc-400 space-y-1 list-disc pl-4">
-                <li>Toggle the <b>Output (Q)</b> bits.</li>
+                <li>Click an output cell to cycle <b>0</b>, <b>1</b> and <b>X</b> (don&apos;t care).</li>
+                <li>On the <b>K-Map</b>, hover a term to see its group.</li>
+                <li>For large tables, type row numbers in the <b>List</b> view (e.g. <b>1, 4, 8-11</b>).</li>
                 <li>The equation updates automatically.</li>
                 <li>Click Generate to build the circuit from the equation.</li>
               </ul>
@@ -115,41 +313,144 @@ export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, o
 
           {/* Table */}
           <div className="w-full md:w-2/3 bg-zinc-950 border border-zinc-800 rounded-lg overflow-hidden flex flex-col">
-            <div className="grid bg-zinc-900 border-b border-zinc-800 text-zinc-400 font-mono text-xs font-bold py-2 px-4 sticky top-0" 
-                 style={{ gridTemplateColumns: `repeat(${numVars}, 1fr) 2fr` }}>
-              {variableNames.map(v => <div key={v} className="text-center">{v}</div>)}
-              <div className="text-center text-blue-400">Output (Q)</div>
-            </div>
-
-            <div className="overflow-y-auto flex-1 max-h-[400px]">
-              {truthTable.map((val, idx) => (
-                <div 
-                  key={idx}
-                  className={`grid items-center py-1.5 px-4 font-mono text-sm border-b border-zinc-800/50 transition-colors ${
-                    val ? 'bg-blue-900/10 hover:bg-blue-900/20' : 'hover:bg-zinc-800'
-                  }`}
-                  style={{ gridTemplateColumns: `repeat(${numVars}, 1fr) 2fr` }}
-                >
-                  {getBinaryString(idx).split('').map((bit, bitIdx) => (
-                    <div key={bitIdx} className={`text-center ${bit === '1' ? 'text-zinc-300' : 'text-zinc-600'}`}>
-                      {bit}
-                    </div>
-                  ))}
-                  <div className="flex justify-center">
+            <div className="flex items-center justify-between bg-zinc-900 border-b border-zinc-800 px-2 py-1.5">
+              <div className="flex bg-zinc-800 p-0.5 rounded-md">
+                {VIEWS.map(v => (
+                  <button
+                    key={v.view}
+                    onClick={() => setView(v.view)}
+                    disabled={v.view === 'kmap' && numVars > MAX_KMAP_VARIABLES}
+                    className={`px-3 py-1 text-xs rounded disabled:opacity-30 ${
+                      activeView === v.view ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:text-white'
+                    }`}
+                  >
+                    {v.label}
+                  </button>
+                ))}
+              </div>
+              {activeView === 'kmap' && numOutputs > 1 && (
+                <div className="flex bg-zinc-800 p-0.5 rounded-md">
+                  {outputNames.map((name, o) => (
                     <button
-                      onClick={() => handleToggle(idx)}
-                      className={`w-12 py-0.5 rounded text-xs font-bold border transition-all ${
-                        val 
-                          ? 'bg-blue-500 border-blue-400 text-white shadow-[0_0_10px_rgba(59,130,246,0.5)]' 
-                          : 'bg-zinc-800 border-zinc-600 text-zinc-500 hover:border-zinc-500'
+                      key={name}
+                      onClick={() => setMapOutput(o)}
+                      className={`px-2 py-1 text-xs font-mono rounded ${
+                        mapOutput === o ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:text-white'
                       }`}
                     >
-                      {val ? '1' : '0'}
+                      {name}
                     </button>
-                  </div>
+                  ))}
+                </div>
+              )}
+              {activeView === 'table' && pageCount > 1 && (
+                <div className="flex items-center gap-1 text-xs text-zinc-400 font-mono">
+                  <button
+                    onClick={() => setPage(Math.max(0, currentPage - 1))}
+                    disabled={currentPage === 0}
+                    className="p-1 rounded hover:bg-zinc-700 disabled:opacity-30"
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <span>{firstRow}&ndash;{firstRow + pageRows.length - 1} / {rowCount}</span>
+                  <button
+                    onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+                    disabled={currentPage === pageCount - 1}
+                    className="p-1 rounded hover:bg-zinc-700 disabled:opacity-30"
+                  >
+                    <ChevronRight size={14} />
+                  </button>
                 </div>
-              ))}
+              )}
             </div>
+
+            {activeView === 'kmap' ? (
+              <div className="overflow-auto flex-1 max-h-[480px]">
+                <KarnaughMapView
+                  numVars={numVars}
+                  variableNames={variableNames}
+                  outputName={outputNames[mapOutput]}
+                  values={truthTables[mapOutput] || []}
+                  terms={outputTerms[mapOutput] || []}
+                  primes={mapPrimes}
+                  complement={usesComplement(form)}
+                  onToggle={(index) => handleToggle(mapOutput, index)}
+                />
+              </div>
+            ) : activeView === 'table' ? (
+              <>
+                <div className="grid bg-zinc-900 border-b border-zinc-800 text-zinc-400 font-mono text-xs font-bold py-2 px-4 sticky top-0" 
+                     style={{ gridTemplateColumns: columns }}>
+                  {variableNames.map(v => <div key={v} className="text-center truncate">{v}</div>)}
+                  {outputNames.map(name => <div key={name} className="text-center text-blue-400">{name}</div>)}
+                </div>
+
+                <div className="overflow-y-auto flex-1 max-h-[400px]">
+                  {pageRows.map(idx => (
+                    <div 
+                      key={idx}
+                      className={`grid items-center py-1.5 px-4 font-mono text-sm border-b border-zinc-800/50 transition-colors ${
+                        truthTables.some(t => t[idx] === 1) ? 'bg-blue-900/10 hover:bg-blue-900/20' : 'hover:bg-zinc-800'
+                      }`}
+                      style={{ gridTemplateColumns: columns }}
+                    >
+                      {getBinaryString(idx).split('').map((bit, bitIdx) => (
+                        <div key={bitIdx} className={`text-center ${bit === '1' ? 'text-zinc-300' : 'text-zinc-600'}`}>
+                          {bit}
+                        </div>
+                      ))}
+                      {truthTables.map((table, output) => {
+                        const val = table[idx] ?? 0;
+                        return (
+                          <div key={output} className="flex justify-center">
+                            <button
+                              onClick={() => handleToggle(output, idx)}
+                              className={`w-12 py-0.5 rounded text-xs font-bold border transition-all ${
+                                val === 1
+                                  ? 'bg-blue-500 border-blue-400 text-white shadow-[0_0_10px_rgba(59,130,246,0.5)]' 
+                                  : val === 'X'
+                                    ? 'bg-amber-900/40 border-amber-600 text-amber-300'
+                                    : 'bg-zinc-800 border-zinc-600 text-zinc-500 hover:border-zinc-500'
+                              }`}
+                            >
+                              {val}
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="overflow-y-auto flex-1 max-h-[440px] p-4 space-y-4">
+                <p className="text-xs text-zinc-500">
+                  Row numbers count from 0, with <b>{variableNames[0]}</b> as the most significant bit. Press Enter to apply.
+                </p>
+                {outputNames.map((name, output) => (
+                  <div key={name} className="space-y-2">
+                    <div className="text-xs font-bold font-mono text-blue-400">{name}</div>
+                    {(['ones', 'dontCares'] as const).map(kind => (
+                      <label key={kind} className="flex items-center gap-2">
+                        <span className="w-8 text-xs font-mono text-zinc-500">{kind === 'ones' ? 'm' : 'd'}(</span>
+                        <input
+                          type="text"
+                          value={listValue(output, kind)}
+                          onChange={(e) => setListDrafts(prev => ({ ...prev, [`${output}:${kind}`]: e.target.value }))}
+                          onBlur={() => applyList(output, kind)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') applyList(output, kind); }}
+                          placeholder={kind === 'ones' ? 'Rows where the output is 1' : "Don't-care rows"}
+                          spellCheck={false}
+                          className="flex-1 bg-zinc-900 border border-zinc-700 rounded px-2 py-1 text-sm font-mono text-white placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+                        />
+                        <span className="text-xs font-mono text-zinc-500">)</span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+                {listError && <p className="text-xs text-red-400">{listError}</p>}
+              </div>
+            )}
           </div>
 
         </div>
@@ -157,14 +458,17 @@ export const KarnaughModal: React.FC<KarnaughModalProps> = ({ isOpen, onClose, o
         {/* Footer */}
         <div className="p-4 border-t border-zinc-700 bg-zinc-800/50 rounded-b-xl flex justify-end gap-3">
           <button 
-            onClick={() => setTruthTable(new Array(Math.pow(2, numVars)).fill(false))}
+            onClick={() => {
+              setTruthTables(Array.from({ length: numOutputs }, emptyTable));
+              setListDrafts({});
+            }}
             className="px-4 py-2 rounded-lg text-sm text-zinc-400 hover:text-white hover:bg-zinc-700 flex items-center gap-2"
           >
             <RefreshCw size={14} />
             Reset
           </button>
           <button 
-            onClick={() => onGenerate(numVars, truthTable)}
+            onClick={() => onGenerate(numVars, truthTables, form, variableNames)}
             className="px-6 py-2 rounded-lg text-sm font-bold bg-blue-600 hover:bg-blue-500 text-white shadow-lg shadow-blue-900/20 flex items-center gap-2 transition-all hover:scale-105"
           >
             <Wand2 size={16} />
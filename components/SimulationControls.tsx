@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Play, Pause, StepForward, SkipForward, RotateCcw, Gauge } from 'lucide-react';
+
+interface SimulationControlsProps {
+  isRunning: boolean;
+  speed: number;
+  time: number; // Simulation time in seconds
+  onToggleRunning: () => void;
+  onStep: (count: number) => void;
+  onReset: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+// Speed multipliers offered by the slider
+export const SIMULATION_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 50, 100];
+
+const MAX_STEP_COUNT = 1000;
+
+export const SimulationControls: React.FC<SimulationControlsProps> = ({
+  isRunning,
+  speed,
+  time,
+  onToggleRunning,
+  onStep,
+  onReset,
+  onSpeedChange
+}) => {
+  const [stepCount, setStepCount] = useState(10);
+  const speedIndex = Math.max(0, SIMULATION_SPEEDS.indexOf(speed));
+
+  return (
+    <div className="absolute top-4 left-72 z-10 flex items-center gap-1 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-lg shadow-2xl px-2 py-1.5">
+      <button
+        onClick={onToggleRunning}
+        title={isRunning ? 'Pause' : 'Run'}
+        className={`p-1.5 rounded transition-colors ${
+          isRunning ? 'text-green-400 hover:bg-zinc-700' : 'text-zinc-300 hover:bg-zinc-700 hover:text-white'
+        }`}
+      >
+        {isRunning ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+      <button
+        onClick={() => onStep(1)}
+        disabled={isRunning}
+        title="Step to the next clock edge (half a period)"
+        className="p-1.5 rounded text-zinc-300 hover:bg-zinc-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      >
+        <StepForward size={16} />
+      </button>
+      <div className="flex items-center">
+        <input
+          type="number"
+          min={1}
+          max={MAX_STEP_COUNT}
+          value={stepCount}
+          onChange={(e) => setStepCount(Math.min(MAX_STEP_COUNT, Math.max(1, Math.floor(Number(e.target.value) || 1))))}
+          title="Clock edges per step"
+          className="w-12 bg-zinc-800 border border-zinc-700 rounded px-1 py-0.5 text-xs font-mono text-zinc-200 focus:outline-none focus:border-zinc-500"
+        />
+        <button
+          onClick={() => onStep(stepCount)}
+          disabled={isRunning}
+          title={`Step ${stepCount} clock edges`}
+          className="p-1.5 rounded text-zinc-300 hover:bg-zinc-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        >
+          <SkipForward size={16} />
+        </button>
+      </div>
+      <button
+        onClick={onReset}
+        title="Reset to the initial state"
+        className="p-1.5 rounded text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors"
+      >
+        <RotateCcw size={16} />
+      </button>
+
+      <div className="w-px h-5 bg-zinc-700 mx-1" />
+
+      <Gauge size={14} className="text-zinc-500" />
+      <input
+        type="range"
+        min={0}
+        max={SIMULATION_SPEEDS.length - 1}
+        value={speedIndex}
+        onChange={(e) => onSpeedChange(SIMULATION_SPEEDS[Number(e.target.value)])}
+        title="Simulation speed"
+        className="w-24 accent-green-500"
+      />
+      <span className="w-10 text-xs font-mono text-zinc-300">{speed}×</span>
+      <span className="text-[10px] font-mono text-zinc-500 ml-1">t = {time.toFixed(2)} s</span>
+    </div>
+  );
+};
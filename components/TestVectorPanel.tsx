@@ -0,0 +1,174 @@
+import React, { useMemo, useRef } from 'react';
+import { ListChecks, FileSpreadsheet, Play, Trash2, X, CheckCircle2, XCircle } from 'lucide-react';
+import { SignalValue, TestVector } from '../types';
+import { TestReport, TestMismatch } from '../services/testVectors';
+
+interface TestVectorPanelProps {
+  isOpen: boolean;
+  vectors: TestVector[];
+  report: TestReport | null;
+  selectedRow: number | null;
+  onSelectRow: (row: number | null) => void;
+  onImportCsv: (file: File) => void;
+  onRun: () => void;
+  onClearVectors: () => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: SignalValue | undefined) =>
+  value === undefined ? '-' : typeof value === 'number' && value > 1 ? `0x${value.toString(16).toUpperCase()}` : String(value);
+
+export const TestVectorPanel: React.FC<TestVectorPanelProps> = ({
+  isOpen,
+  vectors,
+  report,
+  selectedRow,
+  onSelectRow,
+  onImportCsv,
+  onRun,
+  onClearVectors,
+  onClose
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Columns in order of first use across the rows
+  const columns = useMemo(() => {
+    const inputs = new Set<string>();
+    const outputs = new Set<string>();
+    vectors.forEach(v => {
+      Object.keys(v.inputs).forEach(label => inputs.add(label));
+      Object.keys(v.expected).forEach(label => outputs.add(label));
+    });
+    return { inputs: Array.from(inputs), outputs: Array.from(outputs), steps: vectors.some(v => v.steps) };
+  }, [vectors]);
+
+  if (!isOpen) return null;
+
+  const gridColumns = [
+    '2rem',
+    ...columns.inputs.map(() => 'minmax(2rem, 1fr)'),
+    ...(columns.steps ? ['2.5rem'] : []),
+    ...columns.outputs.map(() => 'minmax(3rem, 1.5fr)'),
+    '1.5rem'
+  ].join(' ');
+
+  return (
+    <div className="absolute top-16 right-4 w-[28rem] max-h-[60vh] bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl z-10 overflow-hidden flex flex-col">
+      {/* Header */}
+      <div className="flex items-center gap-1 px-3 py-1.5 bg-zinc-800/50 border-b border-zinc-700">
+        <ListChecks size={14} className="text-sky-400" />
+        <span className="text-xs uppercase font-semibold text-zinc-400 tracking-wider ml-1 flex-1">Test Vectors</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportCsv(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Import CSV"
+          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+        >
+          <FileSpreadsheet size={14} />
+        </button>
+        <button
+          onClick={onClearVectors}
+          disabled={vectors.length === 0}
+          title="Remove all vectors"
+          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+        >
+          <Trash2 size={14} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {vectors.length === 0 ? (
+        <div className="p-4 text-xs text-zinc-500 space-y-2">
+          <p>Import a CSV whose header names the circuit's switches and lamps, plus an optional <span className="font-mono text-zinc-400">steps</span> column of clock edges to run per row:</p>
+          <pre className="bg-zinc-950 border border-zinc-800 rounded p-2 font-mono text-zinc-400">A,B,steps,Q{'\n'}0,1,0,1{'\n'}1,1,2,0</pre>
+          <p>Blank or <span className="font-mono text-zinc-400">-</span> cells keep a switch as it is or skip a lamp.</p>
+        </div>
+      ) : (
+        <>
+          {/* Run bar */}
+          <div className="flex items-center gap-3 px-3 py-2 border-b border-zinc-800">
+            <button
+              onClick={onRun}
+              className="flex items-center gap-1.5 px-3 py-1 rounded text-xs font-bold bg-sky-600 hover:bg-sky-500 text-white transition-colors"
+            >
+              <Play size={12} />
+              Run Tests
+            </button>
+            {report ? (
+              <span className={`text-xs font-mono ${report.passedCount === report.results.length ? 'text-green-400' : 'text-red-400'}`}>
+                {report.passedCount} / {report.results.length} passed
+              </span>
+            ) : (
+              <span className="text-xs text-zinc-500">{vectors.length} row{vectors.length === 1 ? '' : 's'}</span>
+            )}
+          </div>
+
+          {/* Table */}
+          <div className="overflow-auto flex-1">
+            <div
+              className="grid bg-zinc-900 border-b border-zinc-800 text-zinc-400 font-mono text-[10px] font-bold py-1.5 px-3 sticky top-0"
+              style={{ gridTemplateColumns: gridColumns }}
+            >
+              <div>#</div>
+              {columns.inputs.map(label => <div key={`in-${label}`} className="text-center truncate">{label}</div>)}
+              {columns.steps && <div className="text-center text-zinc-500">steps</div>}
+              {columns.outputs.map(label => <div key={`out-${label}`} className="text-center truncate text-sky-400">{label}</div>)}
+              <div />
+            </div>
+
+            {vectors.map((vector, row) => {
+              const result = report?.results[row];
+              const mismatched = new Map<string, TestMismatch>((result?.mismatches ?? []).map(m => [m.label, m]));
+              return (
+                <div
+                  key={row}
+                  onClick={() => onSelectRow(selectedRow === row ? null : row)}
+                  title={result?.error}
+                  className={`grid items-center py-1 px-3 font-mono text-xs border-b border-zinc-800/50 cursor-pointer ${
+                    selectedRow === row ? 'bg-zinc-700/60' : result && !result.passed ? 'bg-red-900/20 hover:bg-red-900/30' : 'hover:bg-zinc-800'
+                  }`}
+                  style={{ gridTemplateColumns: gridColumns }}
+                >
+                  <div className="text-zinc-600">{row + 1}</div>
+                  {columns.inputs.map(label => (
+                    <div key={label} className="text-center text-zinc-300">{formatValue(vector.inputs[label])}</div>
+                  ))}
+                  {columns.steps && <div className="text-center text-zinc-500">{vector.steps ?? 0}</div>}
+                  {columns.outputs.map(label => {
+                    const mismatch = mismatched.get(label);
+                    return (
+                      <div key={label} className={`text-center ${mismatch ? 'text-red-400 font-bold' : 'text-zinc-300'}`}>
+                        {formatValue(vector.expected[label])}
+                        {mismatch && <span className="text-[10px] font-normal text-red-300"> ≠ {formatValue(mismatch.actual)}</span>}
+                      </div>
+                    );
+                  })}
+                  <div className="flex justify-end">
+                    {result && (result.passed
+                      ? <CheckCircle2 size={12} className="text-green-400" />
+                      : <XCircle size={12} className="text-red-400" />)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,27 +1,80 @@
 import React, { useRef } from 'react';
-import { GateType, InteractionMode } from '../types';
+import { GateType, InteractionMode, ComponentDefinition, ProjectSummary, WireCurveType } from '../types';
 import { COMPONENT_CONFIGS } from '../constants';
-import { MousePointer2, Plus, Download, Upload, Grid } from 'lucide-react';
+import { MousePointer2, Plus, Download, Upload, Grid, Boxes, Pencil, Copy, Trash2, FilePlus, FileCode, FileInput, Sigma, ScanSearch, Activity, ListChecks, Spline, Slash, CornerDownRight, Route } from 'lucide-react';
 
 interface ToolbarProps {
-  onSelectTool: (mode: InteractionMode, gateType?: GateType) => void;
+  onSelectTool: (mode: InteractionMode, gateType?: GateType, componentId?: string) => void;
   currentMode: InteractionMode;
   selectedGateType: GateType | null;
+  selectedComponentId: string | null;
+  customComponents: ComponentDefinition[];
+  canCreateComponent: boolean;
   onSave: () => void;
   onLoad: (file: File) => void;
+  onExportVerilog: () => void;
+  onImportNetlist: (file: File) => void;
   onOpenKarnaugh: () => void;
+  onOpenExpression: () => void;
+  onCreateComponent: () => void;
+  onAnalyseSelection: () => void;
+  isAnalyzerOpen: boolean;
+  onToggleAnalyzer: () => void;
+  isTestPanelOpen: boolean;
+  onToggleTests: () => void;
+  wireStyle: WireCurveType;
+  onWireStyleChange: (style: WireCurveType) => void;
+  selectedWireCount: number;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onNewProject: () => void;
+  onOpenProject: (id: string) => void;
+  onRenameProject: (id: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
 }
 
+const WIRE_STYLES: { style: WireCurveType; label: string; icon: React.ElementType }[] = [
+  { style: 'routed', label: 'Auto-route around components', icon: Route },
+  { style: 'bezier', label: 'Curved', icon: Spline },
+  { style: 'step', label: 'Step', icon: CornerDownRight },
+  { style: 'straight', label: 'Straight', icon: Slash }
+];
+
 const Toolbar: React.FC<ToolbarProps> = ({ 
   onSelectTool, 
   currentMode, 
   selectedGateType,
+  selectedComponentId,
+  customComponents,
+  canCreateComponent,
   onSave,
   onLoad,
-  onOpenKarnaugh
+  onExportVerilog,
+  onImportNetlist,
+  onOpenKarnaugh,
+  onOpenExpression,
+  onCreateComponent,
+  onAnalyseSelection,
+  isAnalyzerOpen,
+  onToggleAnalyzer,
+  isTestPanelOpen,
+  onToggleTests,
+  wireStyle,
+  onWireStyleChange,
+  selectedWireCount,
+  projects,
+  currentProjectId,
+  onNewProject,
+  onOpenProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject
 }) => {
-  const gates = Object.values(COMPONENT_CONFIGS);
+  // Subcircuits are placed through their definitions, listed separately
+  const gates = Object.values(COMPONENT_CONFIGS).filter(c => c.type !== GateType.SUBCIRCUIT);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const netlistInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -34,6 +87,16 @@ const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
+  const handleNetlistChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportNetlist(file);
+    }
+    if (netlistInputRef.current) {
+      netlistInputRef.current.value = '';
+    }
+  };
+
   return (
     <div className="absolute left-4 top-4 bottom-4 w-64 bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl flex flex-col overflow-hidden z-10">
       <div className="p-4 border-b border-zinc-700 bg-zinc-800/50">
@@ -63,6 +126,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
               <Upload size={18} className="mb-1" />
               <span className="text-[10px] font-medium">Load</span>
             </button>
+            <button
+              onClick={onExportVerilog}
+              className="flex items-center justify-center gap-2 p-2 rounded-lg bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors border border-zinc-700"
+              title="Download structural Verilog (.v)"
+            >
+              <FileCode size={16} />
+              <span className="text-[10px] font-medium">Export Verilog</span>
+            </button>
+            <button
+              onClick={() => netlistInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 p-2 rounded-lg bg-zinc-800 text-zinc-300 hover:bg-zinc-700 hover:text-white transition-colors border border-zinc-700"
+              title="Import a gate-level Verilog or VHDL netlist"
+            >
+              <FileInput size={16} />
+              <span className="text-[10px] font-medium">Import HDL</span>
+            </button>
             <input 
               type="file" 
               ref={fileInputRef} 
@@ -70,6 +149,54 @@ const Toolbar: React.FC<ToolbarProps> = ({
               accept=".json" 
               onChange={handleFileChange}
             />
+            <input
+              type="file"
+              ref={netlistInputRef}
+              className="hidden"
+              accept=".v,.sv,.vhd,.vhdl"
+              onChange={handleNetlistChange}
+            />
+          </div>
+
+          {/* Projects stored in the browser, autosaved */}
+          <div className="mt-3 space-y-1">
+            <button
+              onClick={onNewProject}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs text-zinc-400 hover:bg-zinc-800 hover:text-white transition-colors"
+            >
+              <FilePlus size={14} />
+              <span className="font-medium">New Project</span>
+            </button>
+            {projects.map(project => {
+              const isCurrent = project.id === currentProjectId;
+              return (
+                <div
+                  key={project.id}
+                  className={`flex items-center gap-1 px-2 py-1.5 rounded-lg border group transition-colors ${
+                    isCurrent ? 'bg-zinc-800 border-blue-500/60' : 'border-transparent hover:bg-zinc-800'
+                  }`}
+                >
+                  <button
+                    onClick={() => onOpenProject(project.id)}
+                    className={`flex-1 min-w-0 text-left text-xs font-mono truncate ${isCurrent ? 'text-white' : 'text-zinc-400'}`}
+                    title={`Saved ${new Date(project.updatedAt).toLocaleString()}`}
+                  >
+                    {project.name}
+                  </button>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => onRenameProject(project.id)} className="p-1 text-zinc-500 hover:text-white" title="Rename">
+                      <Pencil size={12} />
+                    </button>
+                    <button onClick={() => onDuplicateProject(project.id)} className="p-1 text-zinc-500 hover:text-white" title="Duplicate">
+                      <Copy size={12} />
+                    </button>
+                    <button onClick={() => onDeleteProject(project.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Delete">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
 
@@ -99,9 +226,109 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 <span className="text-[10px] text-zinc-500">Auto-Generate Circuit</span>
               </div>
             </button>
+
+            <button
+              onClick={onOpenExpression}
+              className="w-full flex items-center gap-3 p-3 rounded-lg bg-zinc-800 text-zinc-300 hover:bg-zinc-700 border border-zinc-700/50 hover:border-zinc-500 transition-all duration-200"
+            >
+              <Sigma size={18} className="text-purple-400" />
+              <div className="flex flex-col items-start">
+                <span className="font-medium text-sm">Expression</span>
+                <span className="text-[10px] text-zinc-500">Boolean Formula to Circuit</span>
+              </div>
+            </button>
+
+            <button
+              onClick={onCreateComponent}
+              disabled={!canCreateComponent}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg bg-zinc-800 border border-zinc-700/50 transition-all duration-200 ${
+                canCreateComponent
+                  ? 'text-zinc-300 hover:bg-zinc-700 hover:border-zinc-500'
+                  : 'text-zinc-600 cursor-not-allowed'
+              }`}
+            >
+              <Boxes size={18} className={canCreateComponent ? 'text-amber-400' : ''} />
+              <div className="flex flex-col items-start">
+                <span className="font-medium text-sm">Create Component</span>
+                <span className="text-[10px] text-zinc-500">From Selected Nodes</span>
+              </div>
+            </button>
+
+            <button
+              onClick={onAnalyseSelection}
+              disabled={!canCreateComponent}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg bg-zinc-800 border border-zinc-700/50 transition-all duration-200 ${
+                canCreateComponent
+                  ? 'text-zinc-300 hover:bg-zinc-700 hover:border-zinc-500'
+                  : 'text-zinc-600 cursor-not-allowed'
+              }`}
+            >
+              <ScanSearch size={18} className={canCreateComponent ? 'text-emerald-400' : ''} />
+              <div className="flex flex-col items-start">
+                <span className="font-medium text-sm">Analyse Selection</span>
+                <span className="text-[10px] text-zinc-500">Truth Table &amp; Equation</span>
+              </div>
+            </button>
+
+            <button
+              onClick={onToggleAnalyzer}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg border transition-all duration-200 ${
+                isAnalyzerOpen
+                  ? 'bg-zinc-800 text-green-400 border-green-500'
+                  : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700 border-zinc-700/50 hover:border-zinc-500'
+              }`}
+            >
+              <Activity size={18} className="text-green-400" />
+              <div className="flex flex-col items-start">
+                <span className="font-medium text-sm">Logic Analyzer</span>
+                <span className="text-[10px] text-zinc-500">Timing Diagram of Probes</span>
+              </div>
+            </button>
+
+            <button
+              onClick={onToggleTests}
+              className={`w-full flex items-center gap-3 p-3 rounded-lg border transition-all duration-200 ${
+                isTestPanelOpen
+                  ? 'bg-zinc-800 text-sky-400 border-sky-500'
+                  : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700 border-zinc-700/50 hover:border-zinc-500'
+              }`}
+            >
+              <ListChecks size={18} className="text-sky-400" />
+              <div className="flex flex-col items-start">
+                <span className="font-medium text-sm">Run Tests</span>
+                <span className="text-[10px] text-zinc-500">Check Test Vectors</span>
+              </div>
+            </button>
           </div>
         </div>
 
+        {/* Wires Section */}
+        <div>
+          <h2 className="text-xs uppercase font-semibold text-zinc-500 mb-3 tracking-wider">Wires</h2>
+          <div className="grid grid-cols-4 gap-1 p-1 bg-zinc-800 rounded-lg border border-zinc-700/50">
+            {WIRE_STYLES.map(({ style, label, icon: Icon }) => (
+              <button
+                key={style}
+                onClick={() => onWireStyleChange(style)}
+                title={label}
+                className={`flex justify-center p-2 rounded-md transition-colors ${
+                  wireStyle === style ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-white'
+                }`}
+              >
+                <Icon size={16} />
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-zinc-500 mt-2">
+            {selectedWireCount > 0
+              ? `Click a style to apply it to ${selectedWireCount} selected wire${selectedWireCount === 1 ? '' : 's'}`
+              : 'Style of newly drawn wires'}
+          </p>
+          <p className="text-[10px] text-zinc-600 mt-1">
+            Double-click a wire to add a bend point, Alt-drag from a wire to branch it
+          </p>
+        </div>
+
         {/* Components Section */}
         <div>
           <h2 className="text-xs uppercase font-semibold text-zinc-500 mb-3 tracking-wider">Components</h2>
@@ -135,6 +362,38 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 </div>
               </button>
             ))}
+
+            {customComponents.map((component) => {
+              const isActive = currentMode === InteractionMode.PLACING
+                && selectedGateType === GateType.SUBCIRCUIT
+                && selectedComponentId === component.id;
+              return (
+                <button
+                  key={component.id}
+                  onClick={() => onSelectTool(InteractionMode.PLACING, GateType.SUBCIRCUIT, component.id)}
+                  className={`flex items-center p-2 rounded-lg border transition-all duration-200 group relative ${
+                    isActive
+                      ? 'bg-zinc-800 border-green-500 text-green-400 shadow-[0_0_15px_rgba(0,255,65,0.1)]'
+                      : 'bg-zinc-800 border-zinc-700 text-zinc-300 hover:border-zinc-500'
+                  }`}
+                >
+                  <div className="w-12 h-9 bg-zinc-900/50 rounded border border-zinc-700/50 flex items-center justify-center mr-3 shrink-0 overflow-hidden">
+                    <Boxes size={18} className="text-amber-400 opacity-90" />
+                  </div>
+
+                  <div className="flex flex-col items-start flex-1 min-w-0">
+                    <span className="font-bold font-mono text-sm group-hover:text-white transition-colors truncate w-full text-left">{component.name}</span>
+                    <span className="text-[10px] text-zinc-500 leading-tight mt-0.5 truncate w-full text-left">
+                      {component.inputNodeIds.length} in / {component.outputNodeIds.length} out
+                    </span>
+                  </div>
+
+                  <div className={`ml-2 transition-opacity ${isActive ? 'opacity-100 text-green-500' : 'opacity-0 group-hover:opacity-50'}`}>
+                    <Plus size={16} />
+                  </div>
+                </button>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -0,0 +1,257 @@
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  Activity, Plus, ZoomIn, ZoomOut, ChevronsLeftRight, Eraser, PanelBottom, PanelRight,
+  ChevronDown, ChevronUp, X, Trash2
+} from 'lucide-react';
+import { SignalValue } from '../types';
+import { WaveformCapture, valueAtStep } from '../services/waveforms';
+import { renderWaveforms, WAVE_RULER_HEIGHT, WAVE_ROW_HEIGHT, CURSOR_COLORS } from '../services/waveformRenderer';
+import { formatBusValue } from '../services/buses';
+
+interface WaveformPanelProps {
+  isOpen: boolean;
+  capture: WaveformCapture;
+  canAddSelection: boolean;
+  onAddSelection: () => void;
+  onRemoveProbe: (probeId: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type Dock = 'bottom' | 'right';
+
+const MIN_PX_PER_STEP = 1;
+const MAX_PX_PER_STEP = 64;
+
+const clampZoom = (px: number) => Math.min(MAX_PX_PER_STEP, Math.max(MIN_PX_PER_STEP, px));
+
+const formatValue = (value: SignalValue | undefined, width: number): string => {
+  if (value === undefined) return '-';
+  return width > 1 ? formatBusValue(value, width) : String(value);
+};
+
+export const WaveformPanel: React.FC<WaveformPanelProps> = ({
+  isOpen,
+  capture,
+  canAddSelection,
+  onAddSelection,
+  onRemoveProbe,
+  onClear,
+  onClose
+}) => {
+  const [dock, setDock] = useState<Dock>('bottom');
+  const [collapsed, setCollapsed] = useState(false);
+  const [pxPerStep, setPxPerStep] = useState(16);
+  const [viewStart, setViewStart] = useState<number | null>(null); // null follows the latest step
+  const [cursorA, setCursorA] = useState<number | null>(null);
+  const [cursorB, setCursorB] = useState<number | null>(null);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+
+  const visibleSteps = Math.max(1, Math.floor(canvasWidth / pxPerStep));
+  const lastFirstStep = Math.max(capture.startStep, capture.step + 1 - visibleSteps);
+  const firstStep = viewStart === null ? lastFirstStep : Math.min(lastFirstStep, Math.max(capture.startStep, viewStart));
+
+  // Scrolling back to the end resumes following new samples
+  const scrollTo = (step: number) => {
+    setViewStart(step >= lastFirstStep ? null : Math.max(capture.startStep, Math.round(step)));
+  };
+
+  const zoomAround = (factor: number, anchorX: number) => {
+    const next = clampZoom(pxPerStep * factor);
+    const anchorStep = firstStep + anchorX / pxPerStep;
+    setPxPerStep(next);
+    if (viewStart !== null) setViewStart(Math.max(capture.startStep, Math.round(anchorStep - anchorX / next)));
+  };
+
+  const fitAll = () => {
+    const steps = capture.step + 1 - capture.startStep;
+    setPxPerStep(clampZoom(canvasWidth / steps));
+    setViewStart(null);
+  };
+
+  // Track the width of the waveform area
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(() => setCanvasWidth(wrapper.clientWidth));
+    observer.observe(wrapper);
+    setCanvasWidth(wrapper.clientWidth);
+    return () => observer.disconnect();
+  }, [isOpen, collapsed, dock]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = canvasWidth;
+    canvas.height = WAVE_RULER_HEIGHT + Math.max(1, capture.probes.length) * WAVE_ROW_HEIGHT;
+    renderWaveforms(canvas, ctx, capture, { firstStep, pxPerStep, cursorA, cursorB });
+  }, [capture, canvasWidth, firstStep, pxPerStep, cursorA, cursorB, isOpen, collapsed]);
+
+  // Ctrl + wheel zooms around the mouse, Shift + wheel scrolls through time; a plain wheel scrolls the rows
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        zoomAround(e.deltaY < 0 ? 1.25 : 0.8, e.offsetX);
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        scrollTo(firstStep + (e.deltaX || e.deltaY) / pxPerStep);
+      }
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  });
+
+  if (!isOpen) return null;
+
+  // Click places cursor A, Shift + click cursor B
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const step = Math.min(capture.step + 1, Math.max(capture.startStep, Math.round(firstStep + e.nativeEvent.offsetX / pxPerStep)));
+    if (e.shiftKey) setCursorB(step);
+    else setCursorA(step);
+  };
+
+  const dockClass = dock === 'bottom'
+    ? 'bottom-4 left-72 right-80'
+    : 'top-12 right-4 bottom-80 w-[32rem]';
+  const readoutStep = cursorA ?? capture.step;
+
+  return (
+    <div className={`absolute ${dockClass} bg-zinc-900/90 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl z-10 overflow-hidden flex flex-col`}>
+      {/* Header */}
+      <div className="flex items-center gap-1 px-3 py-1.5 bg-zinc-800/50 border-b border-zinc-700">
+        <Activity size={14} className="text-green-400" />
+        <span className="text-xs uppercase font-semibold text-zinc-400 tracking-wider ml-1 flex-1">Logic Analyzer</span>
+        <span className="text-[10px] font-mono text-zinc-500 mr-2">step {capture.step}</span>
+        {!collapsed && (
+          <>
+            <button
+              onClick={onAddSelection}
+              disabled={!canAddSelection}
+              title="Probe selected nodes and wires"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+            >
+              <Plus size={14} />
+            </button>
+            <button
+              onClick={() => zoomAround(0.5, canvasWidth / 2)}
+              title="Zoom out (Ctrl + wheel)"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+            >
+              <ZoomOut size={14} />
+            </button>
+            <button
+              onClick={() => zoomAround(2, canvasWidth / 2)}
+              title="Zoom in (Ctrl + wheel)"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+            >
+              <ZoomIn size={14} />
+            </button>
+            <button
+              onClick={fitAll}
+              title="Fit whole capture"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+            >
+              <ChevronsLeftRight size={14} />
+            </button>
+            <button
+              onClick={() => { onClear(); setCursorA(null); setCursorB(null); setViewStart(null); }}
+              title="Clear samples"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+            >
+              <Eraser size={14} />
+            </button>
+            <button
+              onClick={() => setDock(d => (d === 'bottom' ? 'right' : 'bottom'))}
+              title={dock === 'bottom' ? 'Dock right' : 'Dock bottom'}
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+            >
+              {dock === 'bottom' ? <PanelRight size={14} /> : <PanelBottom size={14} />}
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setCollapsed(c => !c)}
+          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+        >
+          {collapsed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {!collapsed && (
+        <>
+          {/* Probe names and waveforms scroll together */}
+          <div className={`flex overflow-y-auto ${dock === 'bottom' ? 'h-52' : 'flex-1'}`}>
+            <div className="w-40 shrink-0 border-r border-zinc-800">
+              <div className="text-[10px] text-zinc-500 uppercase font-semibold px-2 flex items-center" style={{ height: WAVE_RULER_HEIGHT }}>
+                {cursorA === null ? 'Now' : `At ${cursorA}`}
+              </div>
+              {capture.probes.map(probe => (
+                <div
+                  key={probe.id}
+                  className="group flex items-center gap-1 px-2 text-xs border-b border-zinc-800/50"
+                  style={{ height: WAVE_ROW_HEIGHT }}
+                >
+                  <span className="flex-1 truncate text-zinc-300" title={probe.label}>{probe.label}</span>
+                  <span className="font-mono text-[10px] text-green-400">
+                    {formatValue(valueAtStep(capture.traces[probe.id] || [], readoutStep), probe.bitWidth)}
+                  </span>
+                  <button
+                    onClick={() => onRemoveProbe(probe.id)}
+                    title="Remove probe"
+                    className="p-0.5 rounded text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+              {capture.probes.length === 0 && (
+                <div className="px-2 py-2 text-[10px] text-zinc-600 leading-tight">
+                  Select wires or nodes and press + (or use Add Probe in the context menu).
+                </div>
+              )}
+            </div>
+            <div ref={wrapperRef} className="flex-1 min-w-0">
+              <canvas
+                ref={canvasRef}
+                onClick={handleCanvasClick}
+                title="Click: cursor A, Shift + click: cursor B"
+                className="block cursor-crosshair"
+              />
+            </div>
+          </div>
+
+          {/* Time scroll and cursor readout */}
+          <div className="flex items-center gap-3 px-3 py-1.5 border-t border-zinc-700 text-[10px] font-mono text-zinc-500">
+            <input
+              type="range"
+              min={capture.startStep}
+              max={lastFirstStep}
+              value={firstStep}
+              onChange={(e) => scrollTo(Number(e.target.value))}
+              disabled={lastFirstStep <= capture.startStep}
+              className="flex-1 accent-green-500"
+            />
+            <span style={{ color: CURSOR_COLORS.a }}>A: {cursorA ?? '-'}</span>
+            <span style={{ color: CURSOR_COLORS.b }}>B: {cursorB ?? '-'}</span>
+            <span className="text-zinc-300">
+              Δ {cursorA !== null && cursorB !== null ? `${Math.abs(cursorB - cursorA)} steps` : '-'}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
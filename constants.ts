@@ -10,10 +10,16 @@ export const COLORS = {
   textColor: '#e0e0e0',
   wireInactive: '#4a4a4a',
   wireActive: '#00ff41', // Neon Green
+  wireUnknown: '#ff4444', // X
+  wireFloating: '#3d7eff', // Z
   pinInput: '#ffcc00',
   pinOutput: '#00ccff',
   lampOn: '#00ff41',
   lampOff: '#222222',
+  unstable: '#ff3366', // Oscillating nets / nodes
+  feedbackLoop: '#ffaa00', // Feedback loops that settle (latches)
+  contention: '#ff00cc', // Several drivers fighting over one input
+  testFailure: '#ef4444', // Lamps whose value broke a test vector
 };
 
 export const LED_COLORS = {
@@ -35,8 +41,13 @@ export interface ComponentConfig {
   height: number;
   inputCount: number;
   outputCount: number;
+  delay: number; // Default propagation delay (simulation time units)
   description: string;
   imageSrc?: string; // Optional image source (PNG/SVG)
+  inputLabels?: string[]; // Pin names drawn inside the body (e.g. D, CLK)
+  outputLabels?: string[];
+  clockPin?: number; // Index of the edge-triggered clock input (drawn with the edge triangle)
+  bitWidth?: number; // Default bus width (splitters / mergers)
 }
 
 // SVG Generators for Professional Look
@@ -67,6 +78,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 60, 
     inputCount: 2, 
     outputCount: 1, 
+    delay: 2,
     description: 'Output High only if all inputs are High.',
     imageSrc: GATES_SVG.AND
   },
@@ -78,6 +90,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 60, 
     inputCount: 2, 
     outputCount: 1, 
+    delay: 2,
     description: 'Output High if any input is High.',
     imageSrc: GATES_SVG.OR
   },
@@ -89,6 +102,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 40, 
     inputCount: 1, 
     outputCount: 1, 
+    delay: 1,
     description: 'Inverts the input signal.',
     imageSrc: GATES_SVG.NOT
   },
@@ -100,6 +114,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 60, 
     inputCount: 2, 
     outputCount: 1, 
+    delay: 1,
     description: 'AND followed by NOT.',
     imageSrc: GATES_SVG.NAND
   },
@@ -111,6 +126,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 60, 
     inputCount: 2, 
     outputCount: 1, 
+    delay: 1,
     description: 'OR followed by NOT.',
     imageSrc: GATES_SVG.NOR
   },
@@ -122,6 +138,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 60, 
     inputCount: 2, 
     outputCount: 1, 
+    delay: 3,
     description: 'Exclusive OR.',
     imageSrc: GATES_SVG.XOR
   },
@@ -132,6 +149,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 50, 
     inputCount: 0, 
     outputCount: 1, 
+    delay: 0,
     description: 'Toggle switch for logic High/Low.',
     imageSrc: GATES_SVG.INPUT_SWITCH
   },
@@ -142,6 +160,7 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 50, 
     inputCount: 1, 
     outputCount: 0, 
+    delay: 0,
     description: 'Visual indicator of signal state.',
     imageSrc: GATES_SVG.OUTPUT_LAMP
   },
@@ -152,7 +171,137 @@ export const COMPONENT_CONFIGS: Record<GateType, ComponentConfig> = {
     height: 50, 
     inputCount: 0, 
     outputCount: 1, 
+    delay: 0,
     description: 'Toggles signal periodically.',
     imageSrc: GATES_SVG.CLOCK
   },
+  [GateType.D_FLIP_FLOP]: {
+    type: GateType.D_FLIP_FLOP,
+    label: 'D-FF',
+    width: 120,
+    symbolWidth: 80,
+    height: 100,
+    inputCount: 4,
+    outputCount: 2,
+    delay: 2,
+    description: 'Stores D on the rising clock edge.',
+    inputLabels: ['D', 'CLK', 'PRE', 'CLR'],
+    outputLabels: ['Q', 'Q̅'],
+    clockPin: 1
+  },
+  [GateType.JK_FLIP_FLOP]: {
+    type: GateType.JK_FLIP_FLOP,
+    label: 'JK-FF',
+    width: 120,
+    symbolWidth: 80,
+    height: 120,
+    inputCount: 5,
+    outputCount: 2,
+    delay: 2,
+    description: 'Set, reset or toggle on the rising clock edge.',
+    inputLabels: ['J', 'CLK', 'K', 'PRE', 'CLR'],
+    outputLabels: ['Q', 'Q̅'],
+    clockPin: 1
+  },
+  [GateType.T_FLIP_FLOP]: {
+    type: GateType.T_FLIP_FLOP,
+    label: 'T-FF',
+    width: 120,
+    symbolWidth: 80,
+    height: 100,
+    inputCount: 4,
+    outputCount: 2,
+    delay: 2,
+    description: 'Toggles on the rising clock edge while T is High.',
+    inputLabels: ['T', 'CLK', 'PRE', 'CLR'],
+    outputLabels: ['Q', 'Q̅'],
+    clockPin: 1
+  },
+  [GateType.SR_FLIP_FLOP]: {
+    type: GateType.SR_FLIP_FLOP,
+    label: 'SR-FF',
+    width: 120,
+    symbolWidth: 80,
+    height: 120,
+    inputCount: 5,
+    outputCount: 2,
+    delay: 2,
+    description: 'Set or reset on the rising clock edge.',
+    inputLabels: ['S', 'CLK', 'R', 'PRE', 'CLR'],
+    outputLabels: ['Q', 'Q̅'],
+    clockPin: 1
+  },
+  [GateType.D_LATCH]: {
+    type: GateType.D_LATCH,
+    label: 'D-LATCH',
+    width: 120,
+    symbolWidth: 80,
+    height: 60,
+    inputCount: 2,
+    outputCount: 2,
+    delay: 2,
+    description: 'Follows D while EN is High.',
+    inputLabels: ['D', 'EN'],
+    outputLabels: ['Q', 'Q̅']
+  },
+  [GateType.SR_LATCH]: {
+    type: GateType.SR_LATCH,
+    label: 'SR-LATCH',
+    width: 120,
+    symbolWidth: 80,
+    height: 80,
+    inputCount: 3,
+    outputCount: 2,
+    delay: 2,
+    description: 'Set or reset while EN is High.',
+    inputLabels: ['S', 'EN', 'R'],
+    outputLabels: ['Q', 'Q̅']
+  },
+  [GateType.SUBCIRCUIT]: {
+    type: GateType.SUBCIRCUIT,
+    label: 'SUB',
+    width: 120,
+    symbolWidth: 80,
+    height: 60,
+    inputCount: 0, // Pins come from the component definition
+    outputCount: 0,
+    delay: 0, // Plus the time the nested circuit takes to settle
+    description: 'User-defined component.'
+  },
+  [GateType.SPLITTER]: {
+    type: GateType.SPLITTER,
+    label: 'SPLIT',
+    width: 60,
+    symbolWidth: 20,
+    height: 100,
+    inputCount: 1,
+    outputCount: 4,
+    delay: 0,
+    description: 'Fans a bus out into single bits.',
+    bitWidth: 4
+  },
+  [GateType.MERGER]: {
+    type: GateType.MERGER,
+    label: 'MERGE',
+    width: 60,
+    symbolWidth: 20,
+    height: 100,
+    inputCount: 4,
+    outputCount: 1,
+    delay: 0,
+    description: 'Combines single bits into a bus.',
+    bitWidth: 4
+  },
+  [GateType.TRI_STATE]: {
+    type: GateType.TRI_STATE,
+    label: 'TRI',
+    width: 100,
+    symbolWidth: 60,
+    height: 60,
+    inputCount: 2,
+    outputCount: 1,
+    delay: 1,
+    description: 'Passes A while EN is High, otherwise floats (Z).',
+    inputLabels: ['A', 'EN']
+  },
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { PROJECT_VERSION, normalizeProject, readProject } from '../services/projectFormat';
+import { propagateCircuit } from '../services/circuitEngine';
+import { refreshProjectInstances } from '../services/subcircuits';
+import { Simulator } from '../services/simulator';
+import { ProjectData } from '../types';
+
+const node = (id: string, type: string, inputs: number, outputs: number, extra: object = {}) => ({
+  id, type, label: id.toUpperCase(), position: { x: 0, y: 0 }, width: 50, height: 50, state: false,
+  inputs: new Array(inputs).fill(false), outputs: new Array(outputs).fill(false), ...extra
+});
+const wire = (id: string, sourceNodeId: string, targetNodeId: string) =>
+  ({ id, sourceNodeId, sourcePinIndex: 0, targetNodeId, targetPinIndex: 0, state: false });
+
+// Saved subcircuit state is not trusted: instances with missing or broken `internal` load and simulate
+const inverter = {
+  id: 'inv',
+  name: 'Inverter',
+  nodes: [node('a', 'INPUT_SWITCH', 0, 1), node('n', 'NOT', 1, 1), node('y', 'OUTPUT_LAMP', 1, 0)],
+  wires: [wire('i1', 'a', 'n'), wire('i2', 'n', 'y')],
+  inputNodeIds: ['a'],
+  outputNodeIds: ['y']
+};
+for (const internal of [undefined, 'broken', { nodes: 3 }]) {
+  const { data, errors } = readProject({
+    version: '1.6.0',
+    nodes: [
+      node('s', 'INPUT_SWITCH', 0, 1, { state: true }),
+      node('sub', 'SUBCIRCUIT', 1, 1, { componentId: 'inv', internal }),
+      node('l', 'OUTPUT_LAMP', 1, 0)
+    ],
+    wires: [wire('w1', 's', 'sub'), wire('w2', 'sub', 'l')],
+    components: [inverter],
+    camera: { x: 0, y: 0, zoom: 1 }
+  });
+  assert.deepEqual(errors, [], `a subcircuit saved with internal ${JSON.stringify(internal)} is valid`);
+  const { nodes } = propagateCircuit(refreshProjectInstances(data!).nodes, data!.wires);
+  assert.equal(nodes.find(n => n.id === 'l')!.inputValues![0], 0, 'the rebuilt subcircuit inverts its input');
+}
+
+// Files from older versions migrate up to the current one and still simulate
+const fixture = (name: string): ProjectData => JSON.parse(readFileSync(`scripts/fixtures/${name}`, 'utf8'));
+for (const name of ['v1.0.0.json', 'v1.4.0.json']) {
+  const normalized = normalizeProject(fixture(name));
+  assert.equal(normalized.version, PROJECT_VERSION, `${name} migrates to ${PROJECT_VERSION}`);
+  [...normalized.nodes, ...(normalized.components || []).flatMap(c => c.nodes)].forEach(n => {
+    assert.ok(Array.isArray(n.outputs), `${name}: node ${n.id} has per-pin outputs`);
+  });
+  assert.deepEqual(readProject(fixture(name)).errors, [], `${name} reads without errors`);
+}
+
+// 1.0.0 nodes only stored `state`: an AND of A and B, and A through an inverter
+const v100 = new Simulator(normalizeProject(fixture('v1.0.0.json')));
+assert.deepEqual(v100.getOutputs(), { Y: 1, NY: 0 });
+v100.setInput('A', 0);
+assert.deepEqual(v100.getOutputs(), { Y: 0, NY: 1 });
+
+// 1.4.0 added clock timing: a 2 Hz clock toggles a T flip-flop on every rising edge
+const v140 = new Simulator(normalizeProject(fixture('v1.4.0.json')));
+v140.run(0.5);
+assert.equal(v140.getOutput('Q'), 1, 'one rising edge in the first half second');
+v140.run(0.5);
+assert.equal(v140.getOutput('Q'), 0, 'two rising edges in the first second');
+
+// Gates need as many inputs as the editor allows
+const oneInput = fixture('v1.0.0.json');
+oneInput.nodes = oneInput.nodes.map(n => (n.id === 'and' ? { ...n, inputs: [false] } : n));
+oneInput.wires = oneInput.wires.filter(w => w.id !== 'w2');
+assert.deepEqual(readProject(oneInput).errors, ['nodes[2].inputs: AND needs 2 to 32 inputs, found 1']);
+
+console.log('Project format checks passed.');
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { Simulator } from '../services/simulator';
+
+// Smoke check of the headless simulator against a saved project:
+// a half adder (A, B -> SUM, CARRY) and a 2-bit ripple counter of T flip-flops (CLK, EN -> Q0, Q1)
+const { simulator, errors } = Simulator.load(readFileSync('scripts/fixtures/adderCounter.json', 'utf8'));
+assert.deepEqual(errors, []);
+const sim = simulator!;
+
+for (const a of [0, 1]) {
+  for (const b of [0, 1]) {
+    sim.setInputs({ A: a, B: b });
+    assert.deepEqual(
+      { SUM: sim.getOutput('SUM'), CARRY: sim.getOutput('CARRY') },
+      { SUM: a ^ b, CARRY: a & b },
+      `half adder with A=${a} B=${b}`
+    );
+  }
+}
+
+const count = () => Number(sim.getOutput('Q1')) * 2 + Number(sim.getOutput('Q0'));
+sim.reset();
+assert.equal(count(), 0);
+for (let cycle = 1; cycle <= 6; cycle++) {
+  assert.equal(sim.step(2), 2);
+  assert.equal(count(), cycle % 4, `count after ${cycle} clock cycles`);
+}
+sim.setInput('EN', 0);
+sim.step(4);
+assert.equal(count(), 2, 'the counter holds while EN is Low');
+
+sim.reset();
+sim.run(5.25);
+assert.equal(count(), 5 % 4, 'count after running 5.25 s of a 1 Hz clock');
+
+// Spans with too many edges are rejected up front, leaving the simulation where it was
+assert.throws(() => sim.run(1e6), /clock edges/);
+assert.equal(sim.time, 5.25);
+
+console.log('Simulator checks passed.');
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { readProject } from '../services/projectFormat';
+import { checkWireHit, getInputPinPosition, getOutputPinPosition } from '../services/renderer';
+import { createWireLayoutCache, getWireLayout, pointOnWire } from '../services/wireRouter';
+
+// Lays out the wires of a saved project in each style, as the canvas does every frame
+const { data, errors } = readProject(JSON.parse(readFileSync('scripts/fixtures/adderCounter.json', 'utf8')));
+assert.deepEqual(errors, []);
+const { nodes } = data!;
+const nodeMap = new Map(nodes.map(n => [n.id, n]));
+
+for (const curveType of ['bezier', 'straight', 'step', 'routed'] as const) {
+  const wires = data!.wires.map(w => ({ ...w, curveType }));
+  const cache = createWireLayoutCache();
+  const layout = getWireLayout(nodes, wires, cache);
+  assert.equal(getWireLayout(nodes, wires, cache), layout, 'an unchanged circuit reuses the cached layout');
+
+  wires.forEach(wire => {
+    const path = layout.paths.get(wire.id);
+    assert.ok(path, `${curveType} wire ${wire.id} has a path`);
+    const { points } = path;
+    assert.deepEqual(points[0], getOutputPinPosition(nodeMap.get(wire.sourceNodeId)!, wire.sourcePinIndex));
+    assert.deepEqual(points[points.length - 1], getInputPinPosition(nodeMap.get(wire.targetNodeId)!, wire.targetPinIndex));
+    if (curveType === 'routed') {
+      points.slice(1).forEach((p, i) => {
+        assert.ok(p.x === points[i].x || p.y === points[i].y, `routed wire ${wire.id} only runs orthogonally`);
+      });
+    }
+    // Clicking the middle of a wire hits it
+    const middle = pointOnWire(path, 0.5);
+    assert.equal(checkWireHit(middle.x, middle.y, [wire], layout), wire.id, `${curveType} wire ${wire.id} can be clicked`);
+  });
+}
+
+console.log('Wire layout checks passed.');
@@ -0,0 +1,4 @@
+// Entry point of `npm test`: each check runs on import and throws on the first failure
+import './checkSimulator';
+import './checkWireLayout';
+import './checkProjectFormat';
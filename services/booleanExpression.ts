@@ -0,0 +1,165 @@
+import { GateType } from '../types';
+
+export const MAX_EXPRESSION_VARIABLES = 6;
+
+/**
+ * Parsed boolean expression. Chains of the same operator are kept flat (one multi-input gate).
+ */
+export type LogicExpression =
+  | { kind: 'net'; name: string }
+  | { kind: 'const'; value: boolean }
+  | { kind: 'not'; arg: LogicExpression }
+  | { kind: 'op'; type: GateType.AND | GateType.OR | GateType.XOR; args: LogicExpression[] };
+
+export interface ExpressionError {
+  message: string;
+  position: number; // Index of the offending character
+}
+
+interface ExpressionToken {
+  text: string;
+  position: number;
+}
+
+const NOT_PREFIX = ['!', '~', '¬'];
+const AND_SYMBOLS = ['&', '*', '·', '.', '∧'];
+const OR_SYMBOLS = ['|', '+', '∨'];
+const XOR_SYMBOLS = ['^', '⊕'];
+
+// Flattens nested operators of the same kind into one multi-input gate
+export const flattenExpression = (type: GateType, args: LogicExpression[]): LogicExpression[] =>
+  args.flatMap(arg => (arg.kind === 'op' && arg.type === type ? arg.args : [arg]));
+
+const tokenize = (text: string): ExpressionToken[] | ExpressionError => {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[A-Za-z]/.test(char)) {
+      // A variable is one letter plus optional digits, so "AB" reads as A·B
+      const match = text.slice(i).match(/^[A-Za-z][0-9]*/)!;
+      tokens.push({ text: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '0' || char === '1' || char === "'" || char === '(' || char === ')' ||
+      [...NOT_PREFIX, ...AND_SYMBOLS, ...OR_SYMBOLS, ...XOR_SYMBOLS].includes(char)) {
+      tokens.push({ text: char, position: i });
+      i++;
+    } else {
+      return { message: `Unexpected character "${char}"`, position: i };
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Parses expressions such as `(A & !B) | (C ^ D)` or `A'B + CD`.
+ * NOT (prefix ! ~ ¬ or postfix ') binds tightest, then AND (& * · or juxtaposition), XOR (^), OR (| +).
+ * Variables are sorted alphabetically; errors point at the character that broke the parse.
+ */
+export const parseExpression = (
+  text: string
+): { expression?: LogicExpression; variables: string[]; error?: ExpressionError } => {
+  const tokenized = tokenize(text);
+  if (!Array.isArray(tokenized)) return { variables: [], error: tokenized };
+  const tokens = tokenized;
+  if (tokens.length === 0) return { variables: [], error: { message: 'Expression is empty', position: 0 } };
+
+  let pos = 0;
+  const variables = new Set<string>();
+  const fail = (message: string): never => {
+    const token = tokens[pos];
+    throw { message, position: token ? token.position : text.length } as ExpressionError;
+  };
+  const peek = () => tokens[pos]?.text;
+  const startsOperand = (t: string | undefined) =>
+    t !== undefined && (/^[A-Za-z01]/.test(t) || t === '(' || NOT_PREFIX.includes(t));
+
+  const binary = (type: GateType.AND | GateType.OR | GateType.XOR, symbols: string[], operand: () => LogicExpression, implicit = false) =>
+    (): LogicExpression => {
+      const args = [operand()];
+      while (symbols.includes(peek()!) || (implicit && startsOperand(peek()))) {
+        if (symbols.includes(peek()!)) pos++;
+        if (!startsOperand(peek())) fail(peek() === undefined ? 'Expression ends after an operator' : `Expected a variable, found "${peek()}"`);
+        args.push(operand());
+      }
+      return args.length === 1 ? args[0] : { kind: 'op', type, args: flattenExpression(type, args) };
+    };
+
+  const unary = (): LogicExpression => {
+    const token = tokens[pos];
+    if (!token) return fail('Expression ends too early');
+    let result: LogicExpression;
+    if (NOT_PREFIX.includes(token.text)) {
+      pos++;
+      return { kind: 'not', arg: unary() };
+    } else if (token.text === '(') {
+      pos++;
+      if (peek() === ')') fail('Empty parentheses');
+      result = or();
+      if (peek() !== ')') fail(peek() === undefined ? 'Missing ")"' : `Expected ")", found "${peek()}"`);
+      pos++;
+    } else if (token.text === '0' || token.text === '1') {
+      pos++;
+      result = { kind: 'const', value: token.text === '1' };
+    } else if (/^[A-Za-z]/.test(token.text)) {
+      pos++;
+      const name = token.text.toUpperCase();
+      variables.add(name);
+      result = { kind: 'net', name };
+    } else {
+      return fail(`Unexpected "${token.text}"`);
+    }
+    // Postfix complement: A'' is A again
+    while (peek() === "'") {
+      pos++;
+      result = { kind: 'not', arg: result };
+    }
+    return result;
+  };
+  const and = binary(GateType.AND, AND_SYMBOLS, unary, true);
+  const xor = binary(GateType.XOR, XOR_SYMBOLS, and);
+  const or = binary(GateType.OR, OR_SYMBOLS, xor);
+
+  try {
+    const expression = or();
+    if (pos < tokens.length) fail(peek() === ')' ? 'Unmatched ")"' : `Unexpected "${peek()}"`);
+    const names = Array.from(variables).sort();
+    if (names.length > MAX_EXPRESSION_VARIABLES) {
+      return { variables: names, error: { message: `At most ${MAX_EXPRESSION_VARIABLES} variables are supported`, position: 0 } };
+    }
+    return { expression, variables: names };
+  } catch (err) {
+    return { variables: [], error: err as ExpressionError };
+  }
+};
+
+export const evaluateExpression = (expression: LogicExpression, values: Record<string, boolean>): boolean => {
+  switch (expression.kind) {
+    case 'net':
+      return !!values[expression.name];
+    case 'const':
+      return expression.value;
+    case 'not':
+      return !evaluateExpression(expression.arg, values);
+    case 'op': {
+      const results = expression.args.map(arg => evaluateExpression(arg, values));
+      if (expression.type === GateType.AND) return results.every(Boolean);
+      if (expression.type === GateType.OR) return results.some(Boolean);
+      return results.filter(Boolean).length % 2 === 1;
+    }
+  }
+};
+
+/**
+ * Truth table with the first variable as the most significant bit, matching the Karnaugh generator.
+ */
+export const expressionTruthTable = (expression: LogicExpression, variables: string[]): boolean[] =>
+  Array.from({ length: Math.pow(2, variables.length) }, (_, row) => {
+    const values: Record<string, boolean> = {};
+    variables.forEach((name, i) => {
+      values[name] = ((row >> (variables.length - 1 - i)) & 1) === 1;
+    });
+    return evaluateExpression(expression, values);
+  });
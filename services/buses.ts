@@ -0,0 +1,135 @@
+import { CircuitNode, GateType, Wire, SignalValue } from '../types';
+import { PIN_SPACING } from '../constants';
+
+export const MAX_BIT_WIDTH = 32;
+
+export const getBitWidth = (node: CircuitNode): number => node.bitWidth ?? 1;
+
+/**
+ * Nodes whose logic works on whole bus values rather than single bits.
+ */
+export const isBusNode = (node: CircuitNode): boolean =>
+  getBitWidth(node) > 1 || node.type === GateType.SPLITTER || node.type === GateType.MERGER;
+
+// Types that may be resized to a bus width from the context menu
+export const supportsBusWidth = (type: GateType): boolean => [
+  GateType.AND,
+  GateType.OR,
+  GateType.NOT,
+  GateType.NAND,
+  GateType.NOR,
+  GateType.XOR,
+  GateType.OUTPUT_LAMP,
+  GateType.SPLITTER,
+  GateType.MERGER,
+  GateType.TRI_STATE
+].includes(type);
+
+export const bitMask = (width: number): number => {
+  return width >= 32 ? 0xFFFFFFFF : (1 << width) - 1;
+};
+
+export const getInputPinWidth = (node: CircuitNode, index: number): number => {
+  // Mergers take one bit per pin, tri-state enables are single bits
+  if (node.type === GateType.MERGER) return 1;
+  if (node.type === GateType.TRI_STATE && index === 1) return 1;
+  return getBitWidth(node);
+};
+
+export const getOutputPinWidth = (node: CircuitNode, index: number): number => {
+  // Splitters fan the bus out into single bits
+  if (node.type === GateType.SPLITTER) return 1;
+  // Subcircuit outputs are as wide as the lamp behind them
+  if (node.type === GateType.SUBCIRCUIT && node.internal) {
+    const lamp = node.internal.nodes.find(n => n.id === node.internal!.outputNodeIds[index]);
+    return lamp ? getBitWidth(lamp) : 1;
+  }
+  return getBitWidth(node);
+};
+
+/**
+ * Formats a bus value as hex, padded to the bus width (e.g. 0x0A for 8 bits).
+ */
+export const formatBusValue = (value: SignalValue, width: number): string => {
+  if (value === 'X' || value === 'Z') return value;
+  const digits = Math.ceil(width / 4);
+  return '0x' + (value >>> 0).toString(16).toUpperCase().padStart(digits, '0');
+};
+
+/**
+ * Calculates the output pin values of a bus node from its input pin values.
+ * Gates operate bitwise on the whole bus.
+ */
+export const computeBusLogic = (node: CircuitNode, inputValues: number[]): number[] => {
+  const width = getBitWidth(node);
+  const mask = bitMask(width);
+  const and = () => inputValues.reduce((acc, v) => acc & v, mask);
+  const or = () => inputValues.reduce((acc, v) => acc | v, 0);
+
+  switch (node.type) {
+    case GateType.AND:
+      return [and() >>> 0];
+    case GateType.OR:
+      return [or() >>> 0];
+    case GateType.NOT:
+      return [(~(inputValues[0] || 0) & mask) >>> 0];
+    case GateType.NAND:
+      return [(~and() & mask) >>> 0];
+    case GateType.NOR:
+      return [(~or() & mask) >>> 0];
+    case GateType.XOR:
+      return [inputValues.reduce((acc, v) => acc ^ v, 0) >>> 0];
+    case GateType.OUTPUT_LAMP:
+      // Lit while any bit is High; the full value is read from inputValues for display
+      return [(inputValues[0] || 0) !== 0 ? 1 : 0];
+    case GateType.SPLITTER:
+      return Array.from({ length: width }, (_, bit) => ((inputValues[0] || 0) >>> bit) & 1);
+    case GateType.MERGER:
+      return [inputValues.reduce((acc, v, bit) => acc | ((v & 1) << bit), 0) >>> 0];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Applies a new bus width to a node, resizing the pins of splitters and mergers.
+ */
+export const setNodeBitWidth = (node: CircuitNode, width: number): CircuitNode => {
+  const resize = (values: boolean[], length: number) =>
+    Array.from({ length }, (_, i) => values[i] ?? false);
+
+  if (node.type === GateType.SPLITTER) {
+    return {
+      ...node,
+      bitWidth: width,
+      outputs: resize(node.outputs, width),
+      outputValues: undefined,
+      height: (width + 1) * PIN_SPACING
+    };
+  }
+  if (node.type === GateType.MERGER) {
+    return {
+      ...node,
+      bitWidth: width,
+      inputs: resize(node.inputs, width),
+      inputValues: undefined,
+      height: (width + 1) * PIN_SPACING
+    };
+  }
+  // Values are rebuilt by the next propagation
+  return { ...node, bitWidth: width, inputValues: undefined, outputValues: undefined };
+};
+
+/**
+ * Drops wires whose ends no longer have the same width (or no longer exist).
+ */
+export const pruneMismatchedWires = (nodes: CircuitNode[], wires: Wire[]): Wire[] => {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  return wires.filter(w => {
+    const source = nodeMap.get(w.sourceNodeId);
+    const target = nodeMap.get(w.targetNodeId);
+    if (!source || !target) return false;
+    if (w.sourcePinIndex >= source.outputs.length || w.targetPinIndex >= target.inputs.length) return false;
+    return getOutputPinWidth(source, w.sourcePinIndex) === getInputPinWidth(target, w.targetPinIndex);
+  });
+};
@@ -0,0 +1,91 @@
+import { CircuitNode, Wire, GateType } from '../types';
+import { COMPONENT_CONFIGS } from '../constants';
+import { propagateCircuit, isKnown, isSequentialNode } from './circuitEngine';
+import { getBitWidth } from './buses';
+import { minimiseSumOfProducts, termsToEquation } from './quineMcCluskey';
+
+export const MAX_ANALYSIS_INPUTS = 10;
+
+// 'X' marks an output that is unknown, floating or never settled for that row
+export type AnalysisValue = 0 | 1 | 'X';
+
+export interface CircuitAnalysis {
+  inputNames: string[];
+  outputNames: string[];
+  rows: AnalysisValue[][]; // rows[combination][output], first input is the most significant bit
+  equations: string[]; // Minimal sum of products per output
+  unknownOutputs: boolean[]; // Outputs with X rows, counted as 0 in their equation
+  isSequential: boolean; // Results depend on the current flip-flop state
+}
+
+// Custom labels name the variables; default ones fall back to A, B, C... / Q0, Q1...
+const variableNames = (nodes: CircuitNode[], fallback: (index: number) => string): string[] => {
+  const used = new Set<string>();
+  return nodes.map((node, i) => {
+    const custom = node.label && node.label !== COMPONENT_CONFIGS[node.type].label ? node.label : '';
+    let name = custom || fallback(i);
+    while (used.has(name)) name = `${name}_${i}`;
+    used.add(name);
+    return name;
+  });
+};
+
+const byPosition = (a: CircuitNode, b: CircuitNode) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+/**
+ * Builds the truth table of a selected region: its switches are the inputs and its lamps the outputs.
+ * Every combination is propagated through the whole circuit, so switches outside the region keep their value.
+ */
+export const analyseCircuit = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  nodeIds: string[]
+): { analysis?: CircuitAnalysis; error?: string } => {
+  const members = new Set(nodeIds);
+  const region = nodes.filter(n => members.has(n.id));
+  const inputs = region.filter(n => n.type === GateType.INPUT_SWITCH && getBitWidth(n) === 1).sort(byPosition);
+  const outputs = region.filter(n => n.type === GateType.OUTPUT_LAMP && getBitWidth(n) === 1).sort(byPosition);
+
+  if (inputs.length === 0 || outputs.length === 0) {
+    return { error: 'Select at least one Input Switch and one Output Lamp (1-bit) to analyse.' };
+  }
+  if (inputs.length > MAX_ANALYSIS_INPUTS) {
+    return { error: `Too many inputs (${inputs.length}); at most ${MAX_ANALYSIS_INPUTS} can be analysed.` };
+  }
+
+  const inputIndex = new Map(inputs.map((n, i) => [n.id, i]));
+  const outputIds = outputs.map(n => n.id);
+  const rows: AnalysisValue[][] = [];
+  for (let row = 0; row < Math.pow(2, inputs.length); row++) {
+    const bit = (i: number) => ((row >> (inputs.length - 1 - i)) & 1) === 1;
+    const applied = nodes.map(n => (inputIndex.has(n.id) ? { ...n, state: bit(inputIndex.get(n.id)!) } : n));
+    const result = propagateCircuit(applied, wires);
+    const byId = new Map(result.nodes.map(n => [n.id, n]));
+    rows.push(outputIds.map(id => {
+      const lamp = byId.get(id)!;
+      const value = lamp.inputValues?.[0];
+      if (!result.settled || value === undefined || !isKnown(value)) return 'X';
+      return value ? 1 : 0;
+    }));
+  }
+
+  const equations: string[] = [];
+  const unknownOutputs: boolean[] = [];
+  const inputNames = variableNames(inputs, i => String.fromCharCode(65 + i));
+  outputs.forEach((_, o) => {
+    const minterms = rows.map((r, idx) => (r[o] === 1 ? idx : -1)).filter(idx => idx !== -1);
+    equations.push(termsToEquation(minimiseSumOfProducts(inputs.length, minterms), inputNames));
+    unknownOutputs.push(rows.some(r => r[o] === 'X'));
+  });
+
+  return {
+    analysis: {
+      inputNames,
+      outputNames: variableNames(outputs, i => (outputs.length === 1 ? 'Q' : `Q${i}`)),
+      rows,
+      equations,
+      unknownOutputs,
+      isSequential: region.some(isSequentialNode)
+    }
+  };
+};
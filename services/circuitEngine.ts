@@ -1,4 +1,7 @@
-import { CircuitNode, GateType, Wire } from '../types';
+import { CircuitNode, GateType, Wire, SubcircuitState, SignalValue } from '../types';
+import { COMPONENT_CONFIGS } from '../constants';
+import { EventQueue, SimulationEvent } from './eventQueue';
+import { isBusNode, computeBusLogic, getOutputPinWidth } from './buses';
 
 /**
  * Calculates the output of a single node based on its inputs and type.
@@ -38,79 +41,501 @@ export const computeNodeLogic = (node: CircuitNode, inputStates: boolean[]): boo
 };
 
 /**
- * Propagates signals through the circuit.
- * Iteratively updates wire states and node states until stable or max depth reached.
+ * Calculates the next state of a sequential component (flip-flop or latch).
+ * Returns the output pins ([Q, Q̅]) and the updated memory ([Q, previous CLK]).
+ * Async PRE/CLR are active High; CLR wins if both are asserted.
  */
-export const propagateCircuit = (
-  nodes: CircuitNode[],
-  wires: Wire[]
-): { nodes: CircuitNode[]; wires: Wire[] } => {
-  // Create a working copy
-  let nextNodes = nodes.map(n => ({ ...n }));
-  let nextWires = wires.map(w => ({ ...w }));
-
-  // Create quick lookup maps
-  const nodeMap = new Map<string, CircuitNode>();
-  nextNodes.forEach(n => nodeMap.set(n.id, n));
-
-  let stabilityReached = false;
-  const MAX_ITERATIONS = 20; // Prevent infinite loops
-  let iteration = 0;
-
-  while (!stabilityReached && iteration < MAX_ITERATIONS) {
-    stabilityReached = true;
-    iteration++;
-
-    // 1. Update Wires based on Source Nodes
-    nextWires.forEach(wire => {
-      const sourceNode = nodeMap.get(wire.sourceNodeId);
-      if (sourceNode) {
-        const newSignal = sourceNode.state;
-        if (wire.state !== newSignal) {
-          wire.state = newSignal;
-          stabilityReached = false;
-        }
+export const computeSequentialLogic = (
+  node: CircuitNode,
+  inputStates: boolean[]
+): { outputs: boolean[]; memory: boolean[] } => {
+  const clockPin = COMPONENT_CONFIGS[node.type].clockPin;
+  const clk = clockPin !== undefined ? !!inputStates[clockPin] : false;
+  // No memory yet means no previous clock level, so the first evaluation can't be an edge
+  const [prevQ = false, prevClk = clk] = node.memory ?? [];
+  const rising = clk && !prevClk;
+  let q = prevQ;
+
+  switch (node.type) {
+    case GateType.D_FLIP_FLOP:
+      if (rising) q = !!inputStates[0];
+      break;
+    case GateType.JK_FLIP_FLOP: {
+      const j = !!inputStates[0];
+      const k = !!inputStates[2];
+      if (rising) {
+        if (j && k) q = !prevQ;
+        else if (j) q = true;
+        else if (k) q = false;
       }
+      break;
+    }
+    case GateType.T_FLIP_FLOP:
+      if (rising && inputStates[0]) q = !prevQ;
+      break;
+    case GateType.SR_FLIP_FLOP: {
+      // S = R = High is the forbidden input, the flip-flop holds its state
+      const set = !!inputStates[0];
+      const reset = !!inputStates[2];
+      if (rising && set !== reset) q = set;
+      break;
+    }
+    case GateType.D_LATCH:
+      if (inputStates[1]) q = !!inputStates[0];
+      break;
+    case GateType.SR_LATCH: {
+      const set = !!inputStates[0];
+      const reset = !!inputStates[2];
+      if (inputStates[1] && set !== reset) q = set;
+      break;
+    }
+  }
+
+  // Async preset / clear (flip-flops only)
+  if (clockPin !== undefined) {
+    const labels = COMPONENT_CONFIGS[node.type].inputLabels || [];
+    const preset = inputStates[labels.indexOf('PRE')];
+    const clear = inputStates[labels.indexOf('CLR')];
+    if (clear) q = false;
+    else if (preset) q = true;
+  }
+
+  return { outputs: [q, !q], memory: [q, clk] };
+};
+
+/**
+ * Evaluates a SUBCIRCUIT node by simulating its nested circuit.
+ * Input pins drive the nested switches and output pins read the nested lamps, values as they are
+ * (X, Z and bus values included).
+ */
+const computeSubcircuitLogic = (
+  node: CircuitNode,
+  inputValues: SignalValue[],
+  maxEvents: number
+): { outputs: SignalValue[]; internal: SubcircuitState | undefined; time: number; settled: boolean } => {
+  const inner = node.internal;
+  if (!inner) return { outputs: node.outputs.map(() => 0), internal: inner, time: 0, settled: true };
+
+  const sourceValues: Record<string, SignalValue> = {};
+  inner.inputNodeIds.forEach((id, pin) => { sourceValues[id] = inputValues[pin] ?? 'Z'; });
+  const result = simulateCircuit(inner.nodes, inner.wires, { maxEvents, sourceValues });
+
+  const valueOf = (id: string): SignalValue => result.nodes.find(n => n.id === id)?.inputValues?.[0] ?? 'Z';
+  return {
+    outputs: inner.outputNodeIds.map(valueOf),
+    internal: { ...inner, nodes: result.nodes, wires: result.wires },
+    time: result.time,
+    settled: result.settled
+  };
+};
+
+const SEQUENTIAL_TYPES = new Set<GateType>([
+  GateType.D_FLIP_FLOP,
+  GateType.JK_FLIP_FLOP,
+  GateType.T_FLIP_FLOP,
+  GateType.SR_FLIP_FLOP,
+  GateType.D_LATCH,
+  GateType.SR_LATCH
+]);
+
+export const isSequentialNode = (node: CircuitNode) => SEQUENTIAL_TYPES.has(node.type);
+
+/**
+ * Returns the circuit to its power-on state: flip-flops and latches forget what they stored,
+ * including those inside subcircuits. Propagate afterwards to settle the outputs.
+ */
+export const resetSequentialState = (nodes: CircuitNode[]): CircuitNode[] =>
+  nodes.map(node => {
+    if (isSequentialNode(node)) {
+      // Cleared means Q Low and Q̅ High, so nothing downstream sees an edge when it settles
+      return { ...node, state: false, memory: undefined, outputs: node.outputs.map((_, i) => i === 1), outputValues: undefined };
+    }
+    if (node.type === GateType.SUBCIRCUIT && node.internal) {
+      return { ...node, internal: { ...node.internal, nodes: resetSequentialState(node.internal.nodes) } };
+    }
+    return node;
+  });
+
+/**
+ * Returns the state of one output pin.
+ */
+export const getOutputState = (node: CircuitNode, pinIndex: number): boolean => {
+  return !!node.outputs[pinIndex];
+};
+
+/**
+ * Returns the full value of one output pin (bus value, 0 / 1, X or Z).
+ */
+export const getOutputValue = (node: CircuitNode, pinIndex: number): SignalValue => {
+  return node.outputValues?.[pinIndex] ?? (getOutputState(node, pinIndex) ? 1 : 0);
+};
+
+export const isKnown = (value: SignalValue): value is number => typeof value === 'number';
+
+// X and Z read as Low wherever a plain boolean is needed
+export const isHigh = (value: SignalValue): boolean => isKnown(value) && value !== 0;
+
+/**
+ * Resolves the values of several drivers meeting on one input (wired bus).
+ * Z drivers are ignored; disagreeing drivers give X and count as contention.
+ */
+export const resolveDrivers = (values: SignalValue[]): { value: SignalValue; contention: boolean } => {
+  const driven = values.filter(v => v !== 'Z');
+  if (driven.length === 0) return { value: 'Z', contention: false };
+  if (driven.some(v => v === 'X')) return { value: 'X', contention: false };
+  const first = driven[0];
+  if (driven.every(v => v === first)) return { value: first, contention: false };
+  return { value: 'X', contention: true };
+};
+
+/**
+ * Four-valued evaluation of a combinational node with X / Z inputs.
+ * Dominant inputs still decide single-bit gates (0 for AND, 1 for OR); anything else is X.
+ */
+const computeUnknownLogic = (node: CircuitNode, values: SignalValue[]): SignalValue[] => {
+  const known = values.filter(isKnown);
+  const bus = isBusNode(node);
+
+  switch (node.type) {
+    case GateType.AND:
+    case GateType.NAND:
+      if (!bus && known.includes(0)) return [node.type === GateType.AND ? 0 : 1];
+      return ['X'];
+    case GateType.OR:
+    case GateType.NOR:
+      if (!bus && known.includes(1)) return [node.type === GateType.OR ? 1 : 0];
+      return ['X'];
+    case GateType.OUTPUT_LAMP:
+      return [0]; // Unlit; the X / Z itself is shown from inputValues
+    case GateType.SPLITTER:
+      // A floating or unknown bus is floating or unknown on every bit
+      return node.outputs.map(() => values[0]);
+    case GateType.MERGER:
+      return [values.every(v => v === 'Z') ? 'Z' : 'X'];
+    default:
+      return node.outputs.map(() => 'X');
+  }
+};
+
+/**
+ * Tri-state buffer: drives A while EN is High and releases the net (Z) while EN is Low.
+ */
+const computeTriStateLogic = (values: SignalValue[]): SignalValue[] => {
+  const [data, enable] = values;
+  if (enable === 0) return ['Z'];
+  if (enable === 1) return [data === 'Z' ? 'X' : data];
+  return ['X'];
+};
+
+// Sinks (lamps) have no output pins, the value they display lives in `state`
+const readOutput = (node: CircuitNode, pinIndex: number): SignalValue => {
+  if (node.outputs.length > 0) return getOutputValue(node, pinIndex);
+  return node.state ? 1 : 0;
+};
+
+/**
+ * Returns the propagation delay of a node, falling back to its component default.
+ */
+export const getNodeDelay = (node: CircuitNode): number => {
+  return node.delay ?? COMPONENT_CONFIGS[node.type].delay;
+};
+
+const isSourceNode = (node: CircuitNode) =>
+  node.type === GateType.INPUT_SWITCH || node.type === GateType.CLOCK;
+
+export interface SimulationOptions {
+  maxEvents?: number; // Event budget before giving up (e.g. on oscillation)
+  onEvent?: (event: SimulationEvent) => void; // Observer for every applied output change
+  changedNodeIds?: string[]; // Sources changed since the circuit last settled; only their fan-out is seeded
+  sourceValues?: Record<string, SignalValue>; // Values driven by switches instead of their state (subcircuit pins)
+}
+
+export interface SimulationResult {
+  nodes: CircuitNode[];
+  wires: Wire[];
+  time: number; // Simulation time of the last applied event
+  eventCount: number;
+  settled: boolean; // False if the event budget ran out before the queue drained
+  unstableNodeIds: string[]; // Nodes still changing when the budget ran out (oscillating)
+  contentionWireIds: string[]; // Wires driving opposite values into the same input
+}
+
+/**
+ * Event-driven simulation kernel over its own copy of a circuit.
+ * Output changes are scheduled on a time-ordered queue using each node's propagation
+ * delay (transport delay, so glitches are preserved), and only the fan-out of a
+ * changed node is re-evaluated. Signals are four-valued: unconnected inputs float (Z).
+ *
+ * The netlist index and event queue persist between runs, so a source change (a toggled
+ * switch, a clock edge) only costs the logic it reaches. Seed every node with evaluateAll()
+ * when the copied circuit may not be settled (after loading, a reset or a structural edit).
+ */
+export class CircuitSimulation {
+  readonly nodes: CircuitNode[];
+  readonly wires: Wire[];
+  private nodeMap = new Map<string, CircuitNode>();
+  private wireMap = new Map<string, Wire>();
+  private fanout = new Map<string, Wire[]>();
+  private drivers = new Map<string, Wire[]>(); // Wires into each input pin ("id:pin")
+  private queue = new EventQueue();
+  private projected = new Map<string, SignalValue>(); // Last value scheduled per output pin ("id:pin")
+  private unstableSubcircuits = new Set<string>(); // Nested circuits that failed to settle
+  private maxEvents: number;
+  private onEvent?: (event: SimulationEvent) => void;
+  private now = 0;
+  private eventCount = 0;
+  private unstableNodeIds: string[] = [];
+
+  constructor(nodes: CircuitNode[], wires: Wire[], options: SimulationOptions = {}) {
+    this.nodes = nodes.map(n => ({
+      ...n,
+      inputs: [...n.inputs],
+      outputs: [...n.outputs],
+      memory: n.memory && [...n.memory],
+      outputValues: n.outputValues && [...n.outputValues]
+    }));
+    this.wires = wires.map(w => ({ ...w }));
+    this.maxEvents = options.maxEvents ?? Math.max(10000, this.nodes.length * 100);
+    this.onEvent = options.onEvent;
+
+    // Netlist lookups
+    this.nodes.forEach(n => {
+      this.nodeMap.set(n.id, n);
+      this.fanout.set(n.id, []);
+    });
+    this.wires.forEach(w => {
+      this.wireMap.set(w.id, w);
+      const target = this.nodeMap.get(w.targetNodeId);
+      if (!this.nodeMap.has(w.sourceNodeId) || !target || w.targetPinIndex >= target.inputs.length) return;
+      this.fanout.get(w.sourceNodeId)!.push(w);
+      const key = `${w.targetNodeId}:${w.targetPinIndex}`;
+      this.drivers.set(key, [...(this.drivers.get(key) || []), w]);
     });
 
-    // 2. Update Nodes based on Input Wires
-    nextNodes.forEach(node => {
-      if (node.type === GateType.INPUT_SWITCH || node.type === GateType.CLOCK) {
-        // Source nodes don't update based on inputs
-        return;
+    // Settle wires and inputs onto the current outputs.
+    // Sources are driven through `state` (user toggles, clock ticks), so mirror it onto their pin.
+    this.nodes.forEach(n => {
+      if (isSourceNode(n) && n.outputs.length > 0) {
+        const value = options.sourceValues?.[n.id] ?? (n.state ? 1 : 0);
+        n.state = isHigh(value);
+        n.outputs[0] = n.state;
+        n.outputValues = [value];
       }
+      n.outputValues = n.outputs.map((o, i) => n.outputValues?.[i] ?? (o ? 1 : 0));
+    });
+    this.wires.forEach(wire => {
+      const sourceNode = this.nodeMap.get(wire.sourceNodeId);
+      if (sourceNode) this.driveWire(wire, sourceNode, getOutputValue(sourceNode, wire.sourcePinIndex));
+    });
+    // Inputs without a driver float (Z)
+    this.nodes.forEach(n => {
+      n.inputValues = n.inputs.map(() => 'Z');
+      n.inputs.forEach((_, i) => this.resolveInput(n, i));
+    });
+  }
+
+  /** Time of the last applied event. */
+  get time(): number {
+    return this.now;
+  }
 
-      // Gather current inputs from wires connected to this node
-      const currentInputs = [...node.inputs];
-      let inputsChanged = false;
-
-      // Find wires targeting this node
-      const incomingWires = nextWires.filter(w => w.targetNodeId === node.id);
-
-      // Reset inputs that have no wires connected (default to false / Floating Low)
-      // This is important if a wire was deleted
-      for(let i=0; i<currentInputs.length; i++) {
-        const wire = incomingWires.find(w => w.targetPinIndex === i);
-        const signal = wire ? wire.state : false;
-        
-        if (currentInputs[i] !== signal) {
-            currentInputs[i] = signal;
-            inputsChanged = true;
+  getNode(id: string): CircuitNode | undefined {
+    return this.nodeMap.get(id);
+  }
+
+  getWire(id: string): Wire | undefined {
+    return this.wireMap.get(id);
+  }
+
+  /**
+   * Schedules every node whose output disagrees with its inputs.
+   */
+  evaluateAll(): void {
+    this.nodes.forEach(node => this.evaluate(node, this.now));
+  }
+
+  /**
+   * Schedules every reader of a node's outputs.
+   */
+  evaluateFanout(nodeId: string): void {
+    this.fanout.get(nodeId)?.forEach(wire => this.evaluate(this.nodeMap.get(wire.targetNodeId)!, this.now));
+  }
+
+  /**
+   * Drives a switch or clock to a new level; the change reaches its fan-out on the next run.
+   */
+  setSourceState(nodeId: string, state: boolean): void {
+    const node = this.nodeMap.get(nodeId);
+    if (!node || !isSourceNode(node) || node.outputs.length === 0) return;
+    this.queue.push({ time: this.now, nodeId, pinIndex: 0, value: state ? 1 : 0 });
+  }
+
+  /**
+   * Processes queued events until the circuit settles or the event budget runs out.
+   * Nodes that change during the final quarter of the budget are reported as unstable.
+   */
+  run(): void {
+    this.eventCount = 0;
+    const observeFrom = Math.floor(this.maxEvents * 0.75);
+    const recentlyChanged = new Set<string>();
+
+    while (this.queue.size > 0 && this.eventCount < this.maxEvents) {
+      const time = this.queue.peekTime()!;
+      this.now = time;
+      const dirty = new Set<CircuitNode>();
+
+      while (this.queue.size > 0 && this.queue.peekTime() === time) {
+        const event = this.queue.pop()!;
+        const node = this.nodeMap.get(event.nodeId)!;
+        this.eventCount++;
+        if (readOutput(node, event.pinIndex) === event.value) continue;
+
+        const high = isHigh(event.value);
+        if (event.pinIndex < node.outputs.length) {
+          node.outputs[event.pinIndex] = high;
+          node.outputValues![event.pinIndex] = event.value;
         }
+        if (event.pinIndex === 0) node.state = high; // `state` mirrors the main output
+        this.onEvent?.(event);
+        if (this.eventCount > observeFrom) recentlyChanged.add(node.id);
+
+        this.fanout.get(node.id)!.forEach(wire => {
+          if (wire.sourcePinIndex !== event.pinIndex) return;
+          const target = this.nodeMap.get(wire.targetNodeId)!;
+          this.driveWire(wire, node, event.value);
+          this.resolveInput(target, wire.targetPinIndex);
+          dirty.add(target);
+        });
       }
 
-      // If wires changed inputs, or we need to re-evaluate logic
-      if (inputsChanged) {
-        node.inputs = currentInputs;
-        const newOutputState = computeNodeLogic(node, currentInputs);
-        
-        if (node.state !== newOutputState) {
-          node.state = newOutputState;
-          stabilityReached = false;
-        }
+      dirty.forEach(node => this.evaluate(node, time));
+    }
+
+    this.unstableNodeIds = this.queue.size === 0 ? [] : Array.from(recentlyChanged);
+  }
+
+  get settled(): boolean {
+    return this.queue.size === 0 && this.unstableSubcircuits.size === 0;
+  }
+
+  /**
+   * Outcome of the last run. The nodes and wires are the simulation's own: take the result
+   * once done running, or copy them.
+   */
+  result(): SimulationResult {
+    // Contention is reported on the final state of every wired bus
+    const contentionWireIds: string[] = [];
+    this.drivers.forEach(incoming => {
+      if (incoming.length > 1 && resolveDrivers(incoming.map(w => w.value ?? 'Z')).contention) {
+        contentionWireIds.push(...incoming.map(w => w.id));
       }
     });
+
+    return {
+      nodes: this.nodes,
+      wires: this.wires,
+      time: this.now,
+      eventCount: this.eventCount,
+      settled: this.settled,
+      unstableNodeIds: Array.from(new Set([...this.unstableNodeIds, ...this.unstableSubcircuits])),
+      contentionWireIds
+    };
+  }
+
+  // Recomputes one input pin from every wire driving it
+  private resolveInput(target: CircuitNode, pinIndex: number) {
+    const incoming = this.drivers.get(`${target.id}:${pinIndex}`) || [];
+    const { value } = resolveDrivers(incoming.map(w => w.value ?? 'Z'));
+    target.inputValues![pinIndex] = value;
+    target.inputs[pinIndex] = isHigh(value);
+  }
+
+  // Drives a wire with a pin value
+  private driveWire(wire: Wire, source: CircuitNode, value: SignalValue) {
+    wire.state = isHigh(value);
+    wire.value = value;
+    const width = getOutputPinWidth(source, wire.sourcePinIndex);
+    if (width > 1) wire.bitWidth = width;
+  }
+
+  private evaluate(node: CircuitNode, now: number) {
+    if (isSourceNode(node)) return;
+
+    let values: SignalValue[];
+    let settleTime = 0;
+    const inputValues = node.inputValues!;
+    if (node.type === GateType.TRI_STATE) {
+      values = computeTriStateLogic(inputValues);
+    } else if (node.type === GateType.SUBCIRCUIT) {
+      const next = computeSubcircuitLogic(node, inputValues, this.maxEvents);
+      node.internal = next.internal; // Nested state advances now, outputs follow after the delay
+      values = next.outputs;
+      settleTime = next.time;
+      if (next.settled) this.unstableSubcircuits.delete(node.id);
+      else this.unstableSubcircuits.add(node.id);
+    } else if (isSequentialNode(node)) {
+      // Sequential components read X / Z as Low
+      const next = computeSequentialLogic(node, node.inputs);
+      node.memory = next.memory; // Sampled now, outputs follow after the delay
+      values = toValues(next.outputs);
+    } else if (!inputValues.every(isKnown)) {
+      values = computeUnknownLogic(node, inputValues);
+    } else if (isBusNode(node)) {
+      values = computeBusLogic(node, inputValues as number[]);
+    } else {
+      values = toValues([computeNodeLogic(node, node.inputs)]);
+    }
+
+    values.forEach((value, pinIndex) => {
+      const key = `${node.id}:${pinIndex}`;
+      const last = this.projected.has(key) ? this.projected.get(key)! : readOutput(node, pinIndex);
+      if (value === last) return;
+      this.projected.set(key, value);
+      this.queue.push({ time: now + getNodeDelay(node) + settleTime, nodeId: node.id, pinIndex, value });
+    });
+  }
+}
+
+const toValues = (states: boolean[]): SignalValue[] => states.map(b => (b ? 1 : 0));
+
+/**
+ * Simulates a circuit until it is stable, on a copy of the nodes and wires.
+ * By default every node is evaluated; with `changedNodeIds` the circuit is taken as settled
+ * apart from those switches / clocks, and only their fan-out is evaluated.
+ */
+export const simulateCircuit = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  options: SimulationOptions = {}
+): SimulationResult => {
+  const simulation = new CircuitSimulation(nodes, wires, options);
+  if (options.changedNodeIds) {
+    // The copy already drives the sources' new levels onto their wires
+    options.changedNodeIds.forEach(id => simulation.evaluateFanout(id));
+  } else {
+    simulation.evaluateAll();
   }
+  simulation.run();
+  return simulation.result();
+};
 
-  return { nodes: nextNodes, wires: nextWires };
-};
\ No newline at end of file
+/**
+ * Propagates signals through the circuit until it is stable.
+ * Pass `changedNodeIds` when only those switches / clocks changed since the last settled
+ * propagation, to evaluate just their fan-out.
+ * If it never settles, the nodes that kept changing are reported as unstable.
+ */
+export const propagateCircuit = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  changedNodeIds?: string[]
+): { 
+  nodes: CircuitNode[]; 
+  wires: Wire[]; 
+  settled: boolean; 
+  unstableNodeIds: string[]; 
+  contentionWireIds: string[] 
+} => {
+  const { nodes: nextNodes, wires: nextWires, settled, unstableNodeIds, contentionWireIds } = simulateCircuit(nodes, wires, { changedNodeIds });
+  return { nodes: nextNodes, wires: nextWires, settled, unstableNodeIds, contentionWireIds };
+};
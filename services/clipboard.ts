@@ -0,0 +1,111 @@
+import { CircuitNode, Wire, GateType, Camera, ComponentDefinition, ProjectData, Position } from '../types';
+import { PROJECT_VERSION, readProject } from './projectFormat';
+import { relinkWireCopies } from './wireRouter';
+import { refreshProjectInstances } from './subcircuits';
+import { generateId } from './ids';
+
+/**
+ * Collects the definitions used by a set of nodes, including definitions nested inside them.
+ */
+const collectDefinitions = (nodes: CircuitNode[], definitions: ComponentDefinition[]): ComponentDefinition[] => {
+  const used = new Map<string, ComponentDefinition>();
+  const visit = (list: CircuitNode[]) => {
+    list.forEach(n => {
+      if (n.type !== GateType.SUBCIRCUIT || !n.componentId || used.has(n.componentId)) return;
+      const definition = definitions.find(d => d.id === n.componentId);
+      if (!definition) return;
+      used.set(definition.id, definition);
+      visit(definition.nodes);
+    });
+  };
+  visit(nodes);
+  return Array.from(used.values());
+};
+
+/**
+ * Builds a project fragment from the selected nodes and the wires between them.
+ * Component definitions the selection needs travel along, so it can be pasted into another project.
+ */
+export const createClipboardFragment = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  nodeIds: string[],
+  definitions: ComponentDefinition[],
+  camera: Camera
+): ProjectData => {
+  const members = new Set(nodeIds);
+  const selectedNodes = nodes.filter(n => members.has(n.id));
+  return {
+    version: PROJECT_VERSION,
+    nodes: selectedNodes,
+    wires: wires.filter(w => members.has(w.sourceNodeId) && members.has(w.targetNodeId)),
+    camera,
+    components: collectDefinitions(selectedNodes, definitions)
+  };
+};
+
+/**
+ * Reads a fragment from clipboard text. Returns null for anything that isn't circuit data.
+ */
+export const parseClipboardFragment = (text: string): ProjectData | null => {
+  try {
+    const { data } = readProject(JSON.parse(text));
+    return data ? refreshProjectInstances(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Gives a fragment's nodes and wires fresh IDs and centres the nodes on `position`.
+ * Only definitions the target project doesn't have yet are returned.
+ */
+export const instantiateFragment = (
+  fragment: ProjectData,
+  position: Position,
+  definitions: ComponentDefinition[]
+): { nodes: CircuitNode[]; wires: Wire[]; components: ComponentDefinition[] } => {
+  if (fragment.nodes.length === 0) return { nodes: [], wires: [], components: [] };
+
+  const minX = Math.min(...fragment.nodes.map(n => n.position.x));
+  const minY = Math.min(...fragment.nodes.map(n => n.position.y));
+  const maxX = Math.max(...fragment.nodes.map(n => n.position.x + n.width));
+  const maxY = Math.max(...fragment.nodes.map(n => n.position.y + n.height));
+  const dx = position.x - (minX + maxX) / 2;
+  const dy = position.y - (minY + maxY) / 2;
+
+  const idMap = new Map<string, string>(); // oldId -> newId
+  const nodes = fragment.nodes.map(n => {
+    const id = generateId();
+    idMap.set(n.id, id);
+    return {
+      ...n,
+      id,
+      position: { x: n.position.x + dx, y: n.position.y + dy },
+      inputs: [...n.inputs],
+      outputs: [...n.outputs]
+    };
+  });
+
+  const wireIdMap = new Map<string, string>();
+  const copiedWires = fragment.wires
+    .filter(w => idMap.has(w.sourceNodeId) && idMap.has(w.targetNodeId))
+    .map(w => {
+      const id = generateId();
+      wireIdMap.set(w.id, id);
+      return {
+        ...w,
+        id,
+        sourceNodeId: idMap.get(w.sourceNodeId)!,
+        targetNodeId: idMap.get(w.targetNodeId)!
+      };
+    });
+  const wires = relinkWireCopies(copiedWires, wireIdMap, { x: dx, y: dy });
+
+  const known = new Set(definitions.map(d => d.id));
+  return {
+    nodes,
+    wires,
+    components: (fragment.components || []).filter(c => !known.has(c.id))
+  };
+};
@@ -0,0 +1,117 @@
+import { CircuitNode, GateType } from '../types';
+import { CircuitSimulation } from './circuitEngine';
+
+// One cycle per second at 1x speed: the clock toggles every 500 ms
+export const DEFAULT_CLOCK_FREQUENCY = 1;
+export const DEFAULT_DUTY_CYCLE = 50;
+
+export const MIN_CLOCK_FREQUENCY = 1 / 16;
+export const MAX_CLOCK_FREQUENCY = 64;
+export const MIN_DUTY_CYCLE = 5;
+export const MAX_DUTY_CYCLE = 95;
+
+// Edges closer than this (in seconds / cycles) count as the same instant
+const EPSILON = 1e-9;
+
+export interface ClockSettings {
+  frequency: number; // Hz at 1x simulation speed
+  dutyCycle: number; // Percentage of the period spent High
+  phase: number; // Degrees the waveform is shifted ahead
+}
+
+export const getClockSettings = (node: CircuitNode): ClockSettings => ({
+  frequency: node.frequency ?? DEFAULT_CLOCK_FREQUENCY,
+  dutyCycle: node.dutyCycle ?? DEFAULT_DUTY_CYCLE,
+  phase: node.phase ?? 0
+});
+
+// Position within the current cycle, 0 at the rising edge
+const cyclePosition = (settings: ClockSettings, time: number): number => {
+  const cycles = time * settings.frequency + settings.phase / 360 + EPSILON;
+  return cycles - Math.floor(cycles);
+};
+
+/**
+ * Level of a clock at a simulation time (seconds): High for the first dutyCycle % of each period.
+ */
+export const clockLevel = (node: CircuitNode, time: number): boolean => {
+  const settings = getClockSettings(node);
+  return cyclePosition(settings, time) < settings.dutyCycle / 100;
+};
+
+/**
+ * Time of the next rising or falling edge of any clock after `time`, or null without clocks.
+ */
+export const nextClockEdge = (nodes: CircuitNode[], time: number): number | null => {
+  let next: number | null = null;
+  nodes.forEach(node => {
+    if (node.type !== GateType.CLOCK) return;
+    const { frequency, dutyCycle, phase } = getClockSettings(node);
+    const offset = phase / 360;
+    const cycles = time * frequency + offset;
+    const base = Math.floor(cycles + EPSILON);
+    const edge = [base + dutyCycle / 100, base + 1, base + 1 + dutyCycle / 100].find(c => c > cycles + EPSILON)!;
+    const edgeTime = (edge - offset) / frequency;
+    if (next === null || edgeTime < next) next = edgeTime;
+  });
+  return next;
+};
+
+/**
+ * Number of clock edges after `from` up to and including `to`, counting each clock's edges
+ * separately (edges of different clocks at the same instant are one step of advanceClocks).
+ */
+export const countClockEdges = (nodes: CircuitNode[], from: number, to: number): number =>
+  nodes.reduce((count, node) => {
+    if (node.type !== GateType.CLOCK) return count;
+    const { frequency, dutyCycle, phase } = getClockSettings(node);
+    const offset = phase / 360;
+    // Edges sit at whole cycles (rising) and dutyCycle % into each cycle (falling)
+    const edgesOf = (at: number) =>
+      Math.floor(to * frequency + offset - at + EPSILON) - Math.floor(from * frequency + offset - at + EPSILON);
+    return count + edgesOf(0) + edgesOf(dutyCycle / 100);
+  }, 0);
+
+/**
+ * Sets every clock to its level at `time`; nodes that keep their level are returned as they are.
+ */
+export const applyClockLevels = (nodes: CircuitNode[], time: number): CircuitNode[] =>
+  nodes.map(node => {
+    if (node.type !== GateType.CLOCK) return node;
+    const level = clockLevel(node, time);
+    return level === node.state ? node : { ...node, state: level };
+  });
+
+/**
+ * Moves simulation time forward from `time`, stopping at every clock edge to drive the clocks
+ * that change and run the logic they reach. With a target time it runs up to that time,
+ * otherwise it takes `maxEdges` edges. `onEdge` sees the circuit after each edge; read it
+ * there, as the next edge changes it in place.
+ * Returns the number of edges taken and the time reached; hitting `maxEdges` stops at the last edge.
+ */
+export const advanceClocks = (
+  simulation: CircuitSimulation,
+  time: number,
+  target: number | null,
+  maxEdges: number,
+  onEdge?: (simulation: CircuitSimulation) => void
+): { edges: number; time: number } => {
+  const clocks = simulation.nodes.filter(n => n.type === GateType.CLOCK);
+  let edges = 0;
+
+  while (edges < maxEdges) {
+    const edge = nextClockEdge(clocks, time);
+    if (edge === null || (target !== null && edge > target)) break;
+    time = edge;
+    clocks.forEach(clock => {
+      const level = clockLevel(clock, time);
+      if (level !== clock.state) simulation.setSourceState(clock.id, level);
+    });
+    simulation.run();
+    edges++;
+    onEdge?.(simulation);
+  }
+  if (target !== null && edges < maxEdges) time = target;
+
+  return { edges, time };
+};
@@ -0,0 +1,132 @@
+import { CircuitNode, Wire, CircuitDiagnostics, FeedbackLoop } from '../types';
+import { COMPONENT_CONFIGS } from '../constants';
+
+/**
+ * Finds the strongly connected components of the node graph (Tarjan's algorithm).
+ * Written iteratively so large circuits don't overflow the call stack.
+ */
+const findStronglyConnectedComponents = (nodeIds: string[], successors: Map<string, string[]>): string[][] => {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  nodeIds.forEach(root => {
+    if (index.has(root)) return;
+
+    // Each frame holds a node and the position of the next successor to visit
+    const callStack: { id: string; next: number }[] = [{ id: root, next: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter);
+    counter++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const succ = successors.get(frame.id) || [];
+
+      if (frame.next < succ.length) {
+        const child = succ[frame.next++];
+        if (!index.has(child)) {
+          index.set(child, counter);
+          lowLink.set(child, counter);
+          counter++;
+          stack.push(child);
+          onStack.add(child);
+          callStack.push({ id: child, next: 0 });
+        } else if (onStack.has(child)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(child)!));
+        }
+        continue;
+      }
+
+      // All successors visited: close the frame
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].id;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+      }
+
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  });
+
+  return components;
+};
+
+/**
+ * Finds every feedback loop (combinational cycle) in the circuit.
+ * A loop is a strongly connected component with more than one node, or a node wired to itself.
+ * Edge-triggered flip-flops break combinational paths through their clock and synchronous inputs,
+ * so wires into those are ignored; async PRE / CLR reach the outputs directly and still count.
+ */
+export const findFeedbackLoops = (nodes: CircuitNode[], wires: Wire[]): Omit<FeedbackLoop, 'oscillating'>[] => {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const isSynchronousPin = (node: CircuitNode, pinIndex: number) => {
+    const config = COMPONENT_CONFIGS[node.type];
+    if (config.clockPin === undefined) return false;
+    const label = config.inputLabels?.[pinIndex];
+    return label !== 'PRE' && label !== 'CLR';
+  };
+  const combinationalWires = wires.filter(w => {
+    const target = nodeMap.get(w.targetNodeId);
+    return nodeMap.has(w.sourceNodeId) && target && !isSynchronousPin(target, w.targetPinIndex);
+  });
+
+  const successors = new Map<string, string[]>();
+  nodes.forEach(n => successors.set(n.id, []));
+  combinationalWires.forEach(w => {
+    successors.get(w.sourceNodeId)!.push(w.targetNodeId);
+  });
+
+  return findStronglyConnectedComponents(nodes.map(n => n.id), successors)
+    .map(component => {
+      const members = new Set(component);
+      const wireIds = combinationalWires
+        .filter(w => members.has(w.sourceNodeId) && members.has(w.targetNodeId))
+        .map(w => w.id);
+      return { nodeIds: component, wireIds };
+    })
+    .filter(loop => loop.nodeIds.length > 1 || loop.wireIds.length > 0);
+};
+
+/**
+ * Combines the structural loop analysis with the simulator's unstable nodes and bus contention.
+ * Loops that settled are intentional feedback (e.g. latches); loops that didn't are oscillators.
+ */
+export const diagnoseCircuit = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  unstableNodeIds: string[],
+  contentionWireIds: string[] = []
+): CircuitDiagnostics => {
+  const unstable = new Set(unstableNodeIds);
+
+  const loops = findFeedbackLoops(nodes, wires).map(loop => ({
+    ...loop,
+    oscillating: loop.nodeIds.some(id => unstable.has(id))
+  }));
+
+  const unstableWireIds = wires
+    .filter(w => unstable.has(w.sourceNodeId))
+    .map(w => w.id);
+
+  return {
+    unstableNodeIds: nodes.filter(n => unstable.has(n.id)).map(n => n.id),
+    unstableWireIds,
+    contentionWireIds: wires.filter(w => contentionWireIds.includes(w.id)).map(w => w.id),
+    loops
+  };
+};
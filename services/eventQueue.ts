@@ -0,0 +1,76 @@
+import { SignalValue } from '../types';
+
+/**
+ * A scheduled change of a node's output, consumed by the simulation kernel.
+ */
+export interface SimulationEvent {
+  time: number;
+  nodeId: string;
+  pinIndex: number; // Output pin of the node
+  value: SignalValue; // 0 / 1 for single bits, the full value for buses, or X / Z
+}
+
+interface QueueEntry {
+  event: SimulationEvent;
+  seq: number; // Insertion order, keeps events at the same time FIFO
+}
+
+/**
+ * Time-ordered priority queue (binary min-heap) of simulation events.
+ * Events scheduled for the same time are returned in insertion order.
+ */
+export class EventQueue {
+  private heap: QueueEntry[] = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(event: SimulationEvent) {
+    this.heap.push({ event, seq: this.counter++ });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  peekTime(): number | undefined {
+    return this.heap[0]?.event.time;
+  }
+
+  pop(): SimulationEvent | undefined {
+    if (this.heap.length === 0) return undefined;
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top.event;
+  }
+
+  private less(a: QueueEntry, b: QueueEntry) {
+    return a.event.time < b.event.time || (a.event.time === b.event.time && a.seq < b.seq);
+  }
+
+  private siftUp(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(this.heap[index], this.heap[parent])) break;
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number) {
+    const n = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < n && this.less(this.heap[left], this.heap[smallest])) smallest = left;
+      if (right < n && this.less(this.heap[right], this.heap[smallest])) smallest = right;
+      if (smallest === index) break;
+      [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+      index = smallest;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { CircuitNode, Wire } from '../types';
+
+export const MAX_HISTORY = 100;
+
+/**
+ * Editable state captured before each editing operation.
+ */
+export interface HistorySnapshot {
+  nodes: CircuitNode[];
+  wires: Wire[];
+}
+
+export interface EditHistory {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
+}
+
+export const createHistory = (): EditHistory => ({ past: [], future: [] });
+
+// State is immutable, so an unchanged circuit keeps the same arrays
+const isSameState = (a: HistorySnapshot, b: HistorySnapshot) => a.nodes === b.nodes && a.wires === b.wires;
+
+/**
+ * Stores the state before an edit. A new edit discards everything that was undone.
+ * Edits that turned out to change nothing (e.g. a clamped value) leave a duplicate, which is skipped.
+ */
+export const recordSnapshot = (history: EditHistory, snapshot: HistorySnapshot): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && isSameState(last, snapshot)) return { past: history.past, future: [] };
+  return {
+    past: [...history.past, snapshot].slice(-MAX_HISTORY),
+    future: []
+  };
+};
+
+/**
+ * Steps back one edit, returning the snapshot to restore (or null if there is nothing to undo).
+ */
+export const undoSnapshot = (
+  history: EditHistory,
+  current: HistorySnapshot
+): { history: EditHistory; snapshot: HistorySnapshot } | null => {
+  const past = history.past.filter(snapshot => !isSameState(snapshot, current));
+  if (past.length === 0) return null;
+  return {
+    history: {
+      past: past.slice(0, -1),
+      future: [current, ...history.future]
+    },
+    snapshot: past[past.length - 1]
+  };
+};
+
+/**
+ * Re-applies the last undone edit.
+ */
+export const redoSnapshot = (
+  history: EditHistory,
+  current: HistorySnapshot
+): { history: EditHistory; snapshot: HistorySnapshot } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(1)
+    },
+    snapshot: history.future[0]
+  };
+};
+
+/**
+ * Switch positions, clock phases, stored bits and driven outputs are simulation state, not edits:
+ * restored nodes that still exist keep the values they have now, so the caller can re-propagate
+ * from the live state instead of the one captured before the edit.
+ */
+export const keepSimulationState = (restored: CircuitNode[], current: CircuitNode[]): CircuitNode[] => {
+  const currentMap = new Map(current.map(n => [n.id, n]));
+  return restored.map(node => {
+    const live = currentMap.get(node.id);
+    // A node resized or turned into another component since starts over
+    if (
+      !live || live.type !== node.type || live.bitWidth !== node.bitWidth
+      || live.outputs.length !== node.outputs.length
+    ) return node;
+    return {
+      ...node,
+      state: live.state,
+      outputs: live.outputs,
+      outputValues: live.outputValues,
+      memory: live.memory,
+      ...(live.componentId === node.componentId && live.internal ? { internal: live.internal } : {})
+    };
+  });
+};
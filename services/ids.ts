@@ -0,0 +1,4 @@
+/**
+ * Short random id for nodes, wires, probes, components and the like.
+ */
+export const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -0,0 +1,88 @@
+import { termCovers } from './quineMcCluskey';
+
+export const MAX_KMAP_VARIABLES = 6;
+
+/**
+ * Cell arrangement of a Karnaugh map. Up to 4 variables fit one grid;
+ * the first one or two variables of a 5-6 variable function pick one of several stacked 4-variable maps.
+ */
+export interface KarnaughLayout {
+  numVars: number;
+  mapVars: number; // Variables selecting the map (0-2)
+  rowVars: number;
+  colVars: number;
+  mapCodes: number[]; // Values of the map variables, one per map in display order
+  rowCodes: number[];
+  colCodes: number[];
+}
+
+export interface KarnaughRect {
+  map: number; // Index into mapCodes
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+// Reflected binary code: neighbours differ in one bit, so do the first and last entry
+export const grayCode = (bits: number): number[] =>
+  Array.from({ length: Math.pow(2, bits) }, (_, i) => i ^ (i >> 1));
+
+export const getKarnaughLayout = (numVars: number): KarnaughLayout => {
+  const mapVars = Math.max(0, numVars - 4);
+  const gridVars = numVars - mapVars;
+  const rowVars = Math.floor(gridVars / 2);
+  const colVars = gridVars - rowVars;
+  return {
+    numVars,
+    mapVars,
+    rowVars,
+    colVars,
+    // Four maps sit in a 2x2 block (00 01 / 10 11), where each neighbour already differs in one variable
+    mapCodes: mapVars === 2 ? [0, 1, 2, 3] : grayCode(mapVars),
+    rowCodes: grayCode(rowVars),
+    colCodes: grayCode(colVars)
+  };
+};
+
+/**
+ * Truth table row shown in a cell. Variables keep their order: map, then row, then column variables.
+ */
+export const getCellIndex = (layout: KarnaughLayout, map: number, row: number, col: number): number =>
+  (layout.mapCodes[map] << (layout.rowVars + layout.colVars)) |
+  (layout.rowCodes[row] << layout.colVars) |
+  layout.colCodes[col];
+
+// Contiguous runs of positions; a run wrapping over the edge comes back as two pieces
+const toRuns = (positions: number[]): { start: number; span: number }[] => {
+  const runs: { start: number; span: number }[] = [];
+  positions.forEach(p => {
+    const last = runs[runs.length - 1];
+    if (last && last.start + last.span === p) last.span++;
+    else runs.push({ start: p, span: 1 });
+  });
+  return runs;
+};
+
+/**
+ * Rectangles covering the cells of a term ("1-0-"), split where the group wraps around an edge.
+ */
+export const getTermRects = (layout: KarnaughLayout, term: string): KarnaughRect[] => {
+  const rects: KarnaughRect[] = [];
+  layout.mapCodes.forEach((_, map) => {
+    const rows = layout.rowCodes.map((_, r) => r).filter(r =>
+      layout.colCodes.some((_, c) => termCovers(term, getCellIndex(layout, map, r, c)))
+    );
+    const cols = layout.colCodes.map((_, c) => c).filter(c =>
+      rows.some(r => termCovers(term, getCellIndex(layout, map, r, c)))
+    );
+    toRuns(rows).forEach(rowRun => toRuns(cols).forEach(colRun => {
+      rects.push({ map, row: rowRun.start, col: colRun.start, rowSpan: rowRun.span, colSpan: colRun.span });
+    }));
+  });
+  return rects;
+};
+
+// Axis label such as "01" for the variables of one axis
+export const formatGrayLabel = (code: number, bits: number): string =>
+  bits === 0 ? '' : code.toString(2).padStart(bits, '0');
@@ -0,0 +1,658 @@
+import { CircuitNode, Wire, GateType, Position } from '../types';
+import { COMPONENT_CONFIGS, PIN_SPACING } from '../constants';
+import { LogicExpression, flattenExpression } from './booleanExpression';
+import { generateId } from './ids';
+
+// --- Netlist model shared by both languages ---
+
+interface NetlistGate {
+  type: GateType;
+  inputs: string[]; // Net names, in pin order
+  output: string;
+}
+
+interface Netlist {
+  name: string;
+  inputs: string[];
+  outputs: string[];
+  gates: NetlistGate[];
+  aliases: [string, string][]; // Nets joined by a plain assignment (y = a)
+  constants: Map<string, boolean>; // Constant nets (1'b1, '0', ...)
+}
+
+type Expression = LogicExpression;
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+/**
+ * Error with the source line it was found on.
+ */
+const syntaxError = (token: Token | undefined, message: string) =>
+  new Error(token ? `Line ${token.line}: ${message}` : `Unexpected end of file: ${message}`);
+
+// Walks a token list; shared by the Verilog and VHDL parsers
+const createReader = (tokens: Token[], caseSensitive: boolean) => {
+  let pos = 0;
+  const norm = (text: string) => (caseSensitive ? text : text.toLowerCase());
+  const reader = {
+    peek: (offset = 0) => tokens[pos + offset],
+    is: (text: string, offset = 0) => tokens[pos + offset] !== undefined && norm(tokens[pos + offset].text) === text,
+    next: () => {
+      const token = tokens[pos++];
+      if (!token) throw syntaxError(undefined, 'missing tokens');
+      return token;
+    },
+    expect: (text: string) => {
+      const token = tokens[pos];
+      if (!token || norm(token.text) !== text) {
+        throw syntaxError(token, `expected "${text}"${token ? `, found "${token.text}"` : ''}`);
+      }
+      pos++;
+      return token;
+    },
+    identifier: () => {
+      const token = reader.next();
+      if (!/^[A-Za-z_][A-Za-z0-9_$]*$/.test(token.text)) throw syntaxError(token, `expected a name, found "${token.text}"`);
+      return token.text;
+    },
+    // Skips to just after the next ";" (statements we don't need)
+    skipStatement: () => {
+      while (pos < tokens.length && tokens[pos].text !== ';') pos++;
+      pos++;
+    },
+    done: () => pos >= tokens.length
+  };
+  return reader;
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+// --- Verilog ---
+
+const tokenizeVerilog = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|\s+|(\d*'[bBhHdD][0-9a-fA-FxXzZ_]+|[A-Za-z_][A-Za-z0-9_$]*|\d+|`\w+|[()\[\]{},;=~&|^!:.?#@*-])/g;
+  let line = 1;
+  let match: RegExpExecArray | null;
+  let last = 0;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match.index !== last) {
+      throw new Error(`Line ${line}: unexpected character "${source[last]}"`);
+    }
+    if (match[1]) tokens.push({ text: match[1], line });
+    line += (match[0].match(/\n/g) || []).length;
+    last = pattern.lastIndex;
+  }
+  if (last !== source.length) throw new Error(`Line ${line}: unexpected character "${source[last]}"`);
+  return tokens;
+};
+
+const VERILOG_PRIMITIVES: Record<string, GateType> = {
+  and: GateType.AND,
+  or: GateType.OR,
+  nand: GateType.NAND,
+  nor: GateType.NOR,
+  xor: GateType.XOR,
+  not: GateType.NOT
+};
+
+const parseVerilogConstant = (token: Token): boolean | null => {
+  const match = token.text.match(/^\d*'[bBhHdD]([0-9a-fA-FxXzZ_]+)$/);
+  if (!match) {
+    if (/^\d+$/.test(token.text)) return Number(token.text) !== 0;
+    throw syntaxError(token, `unsupported value "${token.text}"`);
+  }
+  const digits = match[1].replace(/_/g, '').toLowerCase();
+  if (/^[z]+$/.test(digits)) return null; // Floating: left unconnected
+  if (/[xz]/.test(digits)) throw syntaxError(token, `unknown value "${token.text}" can't be imported`);
+  return /[1-9a-f]/.test(digits);
+};
+
+const parseVerilogExpression = (reader: Reader): Expression | null => {
+  // Precedence: ~ / ! > & > ^ > |
+  const binary = (type: GateType.AND | GateType.OR | GateType.XOR, symbol: string, operand: () => Expression | null) => () => {
+    const first = operand();
+    if (!reader.is(symbol)) return first;
+    const args: (Expression | null)[] = [first];
+    while (reader.is(symbol)) {
+      reader.next();
+      args.push(operand());
+    }
+    if (args.some(a => a === null)) throw syntaxError(reader.peek(-1), 'floating value inside an expression');
+    return { kind: 'op', type, args: flattenExpression(type, args as Expression[]) } as Expression;
+  };
+
+  const unary = (): Expression | null => {
+    const token = reader.next();
+    if (token.text === '~' || token.text === '!') {
+      const arg = unary();
+      if (!arg) throw syntaxError(token, 'floating value inside an expression');
+      return { kind: 'not', arg };
+    }
+    if (token.text === '(') {
+      const inner = or();
+      reader.expect(')');
+      return inner;
+    }
+    if (/^[\d']/.test(token.text)) {
+      const value = parseVerilogConstant(token);
+      return value === null ? null : { kind: 'const', value };
+    }
+    if (/^[A-Za-z_]/.test(token.text)) {
+      if (reader.is('[')) throw syntaxError(reader.peek(), 'bus bit selects are not supported');
+      return { kind: 'net', name: token.text };
+    }
+    throw syntaxError(token, `unexpected "${token.text}" in expression`);
+  };
+  const and = binary(GateType.AND, '&', unary);
+  const xor = binary(GateType.XOR, '^', and);
+  const or = binary(GateType.OR, '|', xor);
+  return or();
+};
+
+const parseVerilogModule = (source: string): Netlist => {
+  const reader = createReader(tokenizeVerilog(source), true);
+  while (!reader.done() && !reader.is('module')) reader.next();
+  if (reader.done()) throw new Error('No "module" found.');
+  reader.expect('module');
+
+  const netlist: Netlist = { name: reader.identifier(), inputs: [], outputs: [], gates: [], aliases: [], constants: new Map() };
+  const addPort = (direction: string, name: string) => {
+    if (direction === 'input') netlist.inputs.push(name);
+    else if (direction === 'output') netlist.outputs.push(name);
+  };
+
+  // Direction declarations: "input a, b" / "output wire y"
+  const readDeclaration = (direction: string, stopAt: string[]) => {
+    if (reader.is('wire') || reader.is('reg') || reader.is('logic')) reader.next();
+    if (reader.is('[')) throw syntaxError(reader.peek(), 'bus ports are not supported');
+    addPort(direction, reader.identifier());
+    while (reader.is(',') && !stopAt.some(s => reader.is(s, 1))) {
+      reader.next();
+      addPort(direction, reader.identifier());
+    }
+  };
+
+  if (reader.is('#')) throw syntaxError(reader.peek(), 'module parameters are not supported');
+  if (reader.is('(')) {
+    reader.next();
+    // ANSI style declares directions in the header, the classic style only lists names
+    while (!reader.is(')')) {
+      const token = reader.peek();
+      if (['input', 'output', 'inout'].includes(token?.text)) {
+        if (token.text === 'inout') throw syntaxError(token, 'inout ports are not supported');
+        reader.next();
+        readDeclaration(token.text, ['input', 'output', 'inout']);
+      } else {
+        reader.identifier();
+      }
+      if (reader.is(',')) reader.next();
+      else if (!reader.is(')')) throw syntaxError(reader.peek(), 'expected "," or ")" in the port list');
+    }
+    reader.expect(')');
+  }
+  reader.expect(';');
+
+  let outputCounter = 0;
+  const instanceOutput = () => `$${outputCounter++}`;
+
+  while (!reader.is('endmodule')) {
+    const token = reader.peek();
+    if (!token) throw syntaxError(undefined, 'missing "endmodule"');
+    const keyword = token.text;
+
+    if (keyword === 'input' || keyword === 'output') {
+      reader.next();
+      readDeclaration(keyword, []);
+      reader.expect(';');
+    } else if (keyword === 'inout') {
+      throw syntaxError(token, 'inout ports are not supported');
+    } else if (keyword === 'wire' || keyword === 'tri') {
+      reader.next();
+      if (reader.is('[')) throw syntaxError(reader.peek(), 'bus nets are not supported');
+      // "wire y = a & b;" declares and assigns in one go
+      const name = reader.identifier();
+      if (reader.is('=')) {
+        reader.next();
+        assignVerilog(netlist, name, parseVerilogExpression(reader));
+      }
+      reader.skipStatement();
+    } else if (keyword === 'assign') {
+      reader.next();
+      do {
+        if (reader.is(',')) reader.next();
+        const target = reader.identifier();
+        if (reader.is('[')) throw syntaxError(reader.peek(), 'bus bit selects are not supported');
+        reader.expect('=');
+        assignVerilog(netlist, target, parseVerilogExpression(reader));
+      } while (reader.is(','));
+      reader.expect(';');
+    } else if (VERILOG_PRIMITIVES[keyword] || ['buf', 'xnor', 'bufif1'].includes(keyword)) {
+      reader.next();
+      if (reader.is('#')) {
+        // Delays are ignored: "#3" or "#(1, 2)"
+        reader.next();
+        if (reader.is('(')) while (!reader.is(')')) reader.next();
+        reader.next();
+      }
+      // One statement may hold several instances: "and g1 (y, a, b), g2 (z, c, d);"
+      do {
+        if (reader.is(',')) reader.next();
+        if (!reader.is('(')) reader.identifier(); // Instance name
+        reader.expect('(');
+        const terminals: (string | null)[] = [];
+        while (!reader.is(')')) {
+          const terminal = reader.next();
+          if (/^[\d']/.test(terminal.text)) {
+            const value = parseVerilogConstant(terminal);
+            terminals.push(value === null ? null : constantNet(netlist, value));
+          } else if (/^[A-Za-z_]/.test(terminal.text)) {
+            if (reader.is('[')) throw syntaxError(reader.peek(), 'bus bit selects are not supported');
+            terminals.push(terminal.text);
+          } else {
+            throw syntaxError(terminal, `unexpected "${terminal.text}" in a gate connection`);
+          }
+          if (reader.is(',')) reader.next();
+        }
+        reader.expect(')');
+        addPrimitive(netlist, keyword, terminals, token, instanceOutput);
+      } while (reader.is(','));
+      reader.expect(';');
+    } else if (/^[A-Za-z_]/.test(keyword) && /^[A-Za-z_]/.test(reader.peek(1)?.text ?? '') && reader.is('(', 2)) {
+      throw syntaxError(token, `instance of module "${keyword}" is not supported (flatten the design first)`);
+    } else if (['always', 'initial', 'reg', 'always_ff', 'always_comb'].includes(keyword)) {
+      throw syntaxError(token, `"${keyword}" is not structural; only gates and assigns can be imported`);
+    } else {
+      reader.skipStatement(); // Attributes, timescale, parameters...
+    }
+  }
+  return netlist;
+};
+
+const constantNet = (netlist: Netlist, value: boolean) => {
+  const name = value ? "1'b1" : "1'b0";
+  netlist.constants.set(name, value);
+  return name;
+};
+
+// Adds the gates of one primitive instance
+const addPrimitive = (
+  netlist: Netlist,
+  keyword: string,
+  terminals: (string | null)[],
+  token: Token,
+  tempNet: () => string
+) => {
+  if (terminals.length < 2) throw syntaxError(token, `"${keyword}" needs an output and at least one input`);
+  const [output, ...inputs] = terminals;
+  if (output === null) throw syntaxError(token, `"${keyword}" can't drive a constant`);
+  const floatingSafe = inputs.map(i => i ?? tempNet()); // Unconnected inputs get a net nobody drives
+
+  switch (keyword) {
+    case 'buf':
+    case 'not': {
+      // buf / not may drive several outputs from their last terminal
+      const source = floatingSafe[floatingSafe.length - 1];
+      const outputs = [output, ...floatingSafe.slice(0, -1)];
+      outputs.forEach(out => {
+        if (keyword === 'buf') netlist.aliases.push([out, source]);
+        else netlist.gates.push({ type: GateType.NOT, inputs: [source], output: out });
+      });
+      break;
+    }
+    case 'xnor': {
+      if (floatingSafe.length < 2) throw syntaxError(token, '"xnor" needs at least two inputs');
+      const inner = tempNet();
+      netlist.gates.push({ type: GateType.XOR, inputs: floatingSafe, output: inner });
+      netlist.gates.push({ type: GateType.NOT, inputs: [inner], output });
+      break;
+    }
+    case 'bufif1':
+      if (floatingSafe.length !== 2) throw syntaxError(token, '"bufif1" needs (out, data, enable)');
+      netlist.gates.push({ type: GateType.TRI_STATE, inputs: floatingSafe, output });
+      break;
+    default:
+      // Gates take at least two inputs, as in the editor
+      if (floatingSafe.length < 2) throw syntaxError(token, `"${keyword}" needs at least two inputs`);
+      netlist.gates.push({ type: VERILOG_PRIMITIVES[keyword], inputs: floatingSafe, output });
+  }
+};
+
+// `assign target = expression`; a null expression ('bz) leaves the target undriven
+const assignVerilog = (netlist: Netlist, target: string, expression: Expression | null) => {
+  if (expression) emitExpression(netlist, expression, target);
+};
+
+// --- VHDL ---
+
+const tokenizeVHDL = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /--[^\n]*|\s+|('[01]'|[A-Za-z][A-Za-z0-9_]*|\d+|<=|:=|=>|[()\[\],;:.'"&=<>+-])/g;
+  let line = 1;
+  let match: RegExpExecArray | null;
+  let last = 0;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match.index !== last) throw new Error(`Line ${line}: unexpected character "${source[last]}"`);
+    if (match[1]) tokens.push({ text: match[1], line });
+    line += (match[0].match(/\n/g) || []).length;
+    last = pattern.lastIndex;
+  }
+  if (last !== source.length) throw new Error(`Line ${line}: unexpected character "${source[last]}"`);
+  return tokens;
+};
+
+const VHDL_OPERATORS: Record<string, { type: GateType.AND | GateType.OR | GateType.XOR; inverted: boolean }> = {
+  and: { type: GateType.AND, inverted: false },
+  or: { type: GateType.OR, inverted: false },
+  xor: { type: GateType.XOR, inverted: false },
+  nand: { type: GateType.AND, inverted: true },
+  nor: { type: GateType.OR, inverted: true },
+  xnor: { type: GateType.XOR, inverted: true }
+};
+
+const parseVHDLExpression = (reader: Reader): Expression => {
+  const primary = (): Expression => {
+    const token = reader.next();
+    const text = token.text.toLowerCase();
+    if (text === 'not') return { kind: 'not', arg: primary() };
+    if (text === '(') {
+      const inner = expression();
+      reader.expect(')');
+      return inner;
+    }
+    if (text === "'0'" || text === "'1'") return { kind: 'const', value: text === "'1'" };
+    if (/^[a-z]/.test(text) && !VHDL_OPERATORS[text]) {
+      if (reader.is('(')) throw syntaxError(reader.peek(), 'vector indexing is not supported');
+      return { kind: 'net', name: token.text };
+    }
+    throw syntaxError(token, `unexpected "${token.text}" in expression`);
+  };
+
+  // VHDL logical operators share one precedence level (mixing needs parentheses)
+  const expression = (): Expression => {
+    let left = primary();
+    while (reader.peek() && VHDL_OPERATORS[reader.peek().text.toLowerCase()]) {
+      const operator = VHDL_OPERATORS[reader.next().text.toLowerCase()];
+      const right = primary();
+      const joined: Expression = { kind: 'op', type: operator.type, args: flattenExpression(operator.type, [left, right]) };
+      left = operator.inverted ? { kind: 'not', arg: joined } : joined;
+    }
+    return left;
+  };
+  return expression();
+};
+
+const parseVHDLEntity = (source: string): Netlist => {
+  const reader = createReader(tokenizeVHDL(source), false);
+  while (!reader.done() && !reader.is('entity')) reader.next();
+  if (reader.done()) throw new Error('No "entity" found.');
+  reader.expect('entity');
+
+  const netlist: Netlist = { name: reader.identifier(), inputs: [], outputs: [], gates: [], aliases: [], constants: new Map() };
+  reader.expect('is');
+  reader.expect('port');
+  reader.expect('(');
+  // "a, b : in std_logic;" groups
+  while (!reader.is(')')) {
+    const names = [reader.identifier()];
+    while (reader.is(',')) {
+      reader.next();
+      names.push(reader.identifier());
+    }
+    reader.expect(':');
+    const direction = reader.next();
+    const mode = direction.text.toLowerCase();
+    if (mode !== 'in' && mode !== 'out') throw syntaxError(direction, `port mode "${direction.text}" is not supported`);
+    const type = reader.next();
+    if (type.text.toLowerCase() !== 'std_logic' && type.text.toLowerCase() !== 'bit') {
+      throw syntaxError(type, `port type "${type.text}" is not supported (use std_logic)`);
+    }
+    names.forEach(name => (mode === 'in' ? netlist.inputs : netlist.outputs).push(name));
+    if (reader.is(';')) reader.next();
+  }
+  reader.expect(')');
+  reader.expect(';');
+
+  while (!reader.done() && !reader.is('architecture')) reader.next();
+  if (reader.done()) throw new Error('No "architecture" found.');
+  // Declarations (signals) up to "begin"
+  while (!reader.done() && !reader.is('begin')) reader.next();
+  reader.expect('begin');
+
+  while (!reader.is('end')) {
+    if (reader.done()) throw syntaxError(undefined, 'missing "end"');
+    // Optional statement label: "u1: y <= ..."
+    if (reader.is(':', 1)) {
+      reader.next();
+      reader.next();
+    }
+    const target = reader.peek();
+    if (['process', 'with', 'if', 'for'].includes(target.text.toLowerCase()) || reader.is('port', 1) || reader.is('entity', 0)) {
+      throw syntaxError(target, `"${target.text}" is not structural; only concurrent assignments can be imported`);
+    }
+    const name = reader.identifier();
+    reader.expect('<=');
+    const expression = parseVHDLExpression(reader);
+    if (reader.is('when')) throw syntaxError(reader.peek(), 'conditional assignments are not supported');
+    reader.expect(';');
+    emitExpression(netlist, expression, name);
+  }
+  return netlist;
+};
+
+// --- Netlist building ---
+
+let tempCounter = 0;
+
+/**
+ * Adds the gates for an expression. The top gate drives `target`;
+ * a bare net or constant becomes an alias.
+ */
+const emitExpression = (netlist: Netlist, expression: Expression, target?: string): string => {
+  const output = target ?? `$e${tempCounter++}`;
+  switch (expression.kind) {
+    case 'net':
+      if (target) netlist.aliases.push([target, expression.name]);
+      return expression.name;
+    case 'const': {
+      const net = constantNet(netlist, expression.value);
+      if (target) netlist.aliases.push([target, net]);
+      return net;
+    }
+    case 'not': {
+      const arg = expression.arg;
+      // NOT over AND / OR folds into NAND / NOR
+      if (arg.kind === 'op' && arg.type !== GateType.XOR) {
+        const inputs = arg.args.map(a => emitExpression(netlist, a));
+        netlist.gates.push({ type: arg.type === GateType.AND ? GateType.NAND : GateType.NOR, inputs, output });
+        return output;
+      }
+      netlist.gates.push({ type: GateType.NOT, inputs: [emitExpression(netlist, arg)], output });
+      return output;
+    }
+    case 'op':
+      netlist.gates.push({ type: expression.type, inputs: expression.args.map(a => emitExpression(netlist, a)), output });
+      return output;
+  }
+};
+
+const nodeHeight = (type: GateType, inputCount: number) =>
+  Math.max(COMPONENT_CONFIGS[type].height, (inputCount + 1) * PIN_SPACING);
+
+/**
+ * Turns a netlist into nodes and wires, laid out in columns by logic depth.
+ */
+const buildCircuit = (netlist: Netlist, origin: Position): { nodes: CircuitNode[]; wires: Wire[] } => {
+  // Union-find over aliased nets
+  const parent = new Map<string, string>();
+  const find = (net: string): string => {
+    let root = net;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(net, root);
+    return root;
+  };
+  netlist.aliases.forEach(([a, b]) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  });
+
+  const makeNode = (type: GateType, inputCount: number, label: string, state = false): CircuitNode => {
+    const config = COMPONENT_CONFIGS[type];
+    return {
+      id: generateId(),
+      type,
+      position: { x: 0, y: 0 },
+      width: config.width,
+      height: nodeHeight(type, inputCount),
+      inputs: new Array(inputCount).fill(false),
+      outputs: new Array(config.outputCount).fill(false),
+      state,
+      label
+    };
+  };
+
+  const nodes: CircuitNode[] = [];
+  const drivers = new Map<string, CircuitNode[]>(); // Net root -> nodes driving it
+  const addDriver = (net: string, node: CircuitNode) => {
+    const root = find(net);
+    drivers.set(root, [...(drivers.get(root) || []), node]);
+  };
+
+  const switches = netlist.inputs.map(name => {
+    const node = makeNode(GateType.INPUT_SWITCH, 0, name);
+    addDriver(name, node);
+    return node;
+  });
+  const constants = Array.from(netlist.constants.entries()).map(([name, value]) => {
+    const node = makeNode(GateType.INPUT_SWITCH, 0, value ? 'VCC' : 'GND', value);
+    addDriver(name, node);
+    return node;
+  });
+  const gates = netlist.gates.map(gate => {
+    const node = makeNode(gate.type, gate.inputs.length, COMPONENT_CONFIGS[gate.type].label);
+    addDriver(gate.output, node);
+    return { node, inputs: gate.inputs };
+  });
+  const lamps = netlist.outputs.map(name => ({ node: makeNode(GateType.OUTPUT_LAMP, 1, name), inputs: [name] }));
+  nodes.push(...switches, ...constants, ...gates.map(g => g.node), ...lamps.map(l => l.node));
+
+  // Wires from every driver of each input net
+  const wires: Wire[] = [];
+  const predecessors = new Map<string, CircuitNode[]>();
+  [...gates, ...lamps].forEach(({ node, inputs }) => {
+    predecessors.set(node.id, []);
+    inputs.forEach((net, pin) => {
+      (drivers.get(find(net)) || []).forEach(source => {
+        wires.push({
+          id: generateId(),
+          sourceNodeId: source.id,
+          sourcePinIndex: 0,
+          targetNodeId: node.id,
+          targetPinIndex: pin,
+          state: false
+        });
+        predecessors.get(node.id)!.push(source);
+      });
+    });
+  });
+
+  // Column = longest path from the inputs (Kahn's algorithm; nodes in loops are placed after their known drivers)
+  const level = new Map<string, number>();
+  [...switches, ...constants].forEach(n => level.set(n.id, 0));
+  const logic = gates.map(g => g.node);
+  const successors = new Map<string, CircuitNode[]>();
+  const pending = new Map<string, number>();
+  logic.forEach(n => {
+    const preds = predecessors.get(n.id)!.filter(p => p.type !== GateType.INPUT_SWITCH);
+    pending.set(n.id, preds.length);
+    preds.forEach(p => successors.set(p.id, [...(successors.get(p.id) || []), n]));
+  });
+  const depthOf = (n: CircuitNode) =>
+    Math.max(0, ...predecessors.get(n.id)!.filter(p => level.has(p.id)).map(p => level.get(p.id)!)) + 1;
+  const queue = logic.filter(n => pending.get(n.id) === 0);
+  const visit = (n: CircuitNode) => {
+    level.set(n.id, depthOf(n));
+    (successors.get(n.id) || []).forEach(s => {
+      pending.set(s.id, pending.get(s.id)! - 1);
+      if (pending.get(s.id) === 0) queue.push(s);
+    });
+  };
+  while (queue.length > 0) visit(queue.shift()!);
+  logic.filter(n => !level.has(n.id)).forEach(n => level.set(n.id, depthOf(n)));
+  const lastColumn = Math.max(0, ...logic.map(n => level.get(n.id)!)) + 1;
+  lamps.forEach(l => level.set(l.node.id, lastColumn));
+
+  // Rows: ports keep their declared order, other columns follow their drivers (barycentre)
+  const COLUMN_SPACING = 180;
+  const ROW_GAP = 30;
+  const rowCentre = new Map<string, number>();
+  for (let column = 0; column <= lastColumn; column++) {
+    const members = nodes.filter(n => level.get(n.id) === column);
+    if (column > 0) {
+      const barycentre = (n: CircuitNode) => {
+        const placed = predecessors.get(n.id)!.filter(p => rowCentre.has(p.id));
+        return placed.length ? placed.reduce((sum, p) => sum + rowCentre.get(p.id)!, 0) / placed.length : 0;
+      };
+      const lampOrder = (n: CircuitNode) => lamps.findIndex(l => l.node === n);
+      members.sort((a, b) => column === lastColumn ? lampOrder(a) - lampOrder(b) : barycentre(a) - barycentre(b));
+    }
+
+    const total = members.reduce((sum, n) => sum + n.height, 0) + ROW_GAP * Math.max(0, members.length - 1);
+    let y = origin.y - total / 2;
+    members.forEach(n => {
+      n.position = { x: origin.x + column * COLUMN_SPACING, y };
+      rowCentre.set(n.id, y + n.height / 2);
+      y += n.height + ROW_GAP;
+    });
+  }
+
+  return { nodes, wires };
+};
+
+/**
+ * Imports a gate-level Verilog module or VHDL entity.
+ * Ports become switches / lamps, gates and assignments become gate nodes and nets become wires.
+ * Returns a readable error (with the line number) for anything outside the structural subset.
+ */
+export const importNetlist = (
+  source: string,
+  language: 'verilog' | 'vhdl',
+  origin: Position
+): { nodes?: CircuitNode[]; wires?: Wire[]; name?: string; error?: string } => {
+  try {
+    const netlist = language === 'vhdl' ? parseVHDLEntity(source) : parseVerilogModule(source);
+    if (netlist.inputs.length === 0 && netlist.outputs.length === 0 && netlist.gates.length === 0) {
+      return { error: `Module "${netlist.name}" is empty.` };
+    }
+    return { ...buildCircuit(netlist, origin), name: netlist.name };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+/**
+ * Builds the gates of a single expression, with a switch per variable and one output lamp.
+ */
+export const generateCircuitFromExpression = (
+  expression: LogicExpression,
+  variables: string[],
+  origin: Position,
+  outputName = 'Q'
+): { nodes: CircuitNode[]; wires: Wire[] } => {
+  const netlist: Netlist = { name: outputName, inputs: variables, outputs: [outputName], gates: [], aliases: [], constants: new Map() };
+  emitExpression(netlist, expression, outputName);
+  return buildCircuit(netlist, origin);
+};
+
+/**
+ * Guesses the language of a netlist from its file name, falling back to its contents.
+ */
+export const detectNetlistLanguage = (fileName: string, source: string): 'verilog' | 'vhdl' => {
+  if (/\.(vhd|vhdl)$/i.test(fileName)) return 'vhdl';
+  if (/\.(v|sv)$/i.test(fileName)) return 'verilog';
+  return /\bentity\b/i.test(source) ? 'vhdl' : 'verilog';
+};
@@ -0,0 +1,370 @@
+import { CircuitNode, GateType, ProjectData, Wire, ComponentDefinition } from '../types';
+import { COMPONENT_CONFIGS } from '../constants';
+import { getBitWidth, getInputPinWidth, getOutputPinWidth, MAX_BIT_WIDTH } from './buses';
+
+// 1.1.0: nodes carry per-pin `outputs`
+// 1.2.0: optional bus widths / values on nodes and wires
+// 1.3.0: signal values may be X / Z, tri-state buffers
+// 1.4.0: optional clock frequency, duty cycle and phase
+// 1.5.0: optional test vectors
+// 1.6.0: optional wire bend points and branch junctions
+export const PROJECT_VERSION = '1.6.0';
+
+// Files without a version predate the field being read
+const INITIAL_VERSION = '1.0.0';
+
+// Gates whose input count can be changed from the context menu
+const VARIABLE_INPUT_TYPES = new Set<GateType>([
+  GateType.AND,
+  GateType.OR,
+  GateType.NAND,
+  GateType.NOR,
+  GateType.XOR
+]);
+// Same limits as the editor's input count buttons
+const MIN_INPUTS = 2;
+const MAX_INPUTS = 32;
+
+/**
+ * Fills in per-pin outputs for nodes saved before they existed (1.0.0 files only stored `state`).
+ */
+const upgradeNode = (node: CircuitNode): CircuitNode => {
+  if (Array.isArray(node.outputs)) return node;
+
+  const outputCount = COMPONENT_CONFIGS[node.type]?.outputCount ?? 1;
+  const outputs = new Array(outputCount).fill(false);
+  if (outputCount > 0) outputs[0] = !!node.state;
+  return { ...node, outputs };
+};
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate: (data: ProjectData) => ProjectData;
+}
+
+// Each step upgrades a file by one version; a file runs every step from its own version on
+const MIGRATIONS: Migration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate: data => ({
+      ...data,
+      nodes: data.nodes.map(upgradeNode),
+      components: (data.components || []).map(c => ({ ...c, nodes: c.nodes.map(upgradeNode) }))
+    })
+  },
+  // Bus fields are optional and default to 1 bit
+  { from: '1.1.0', to: '1.2.0', migrate: data => data },
+  // X / Z only appear in engine-maintained values, rebuilt on load
+  { from: '1.2.0', to: '1.3.0', migrate: data => data },
+  // Clocks without timing fields keep the old 1 Hz square wave
+  { from: '1.3.0', to: '1.4.0', migrate: data => data },
+  // Projects without vectors simply have none
+  { from: '1.4.0', to: '1.5.0', migrate: data => data },
+  // Wires without bend points or junctions keep their curve style
+  { from: '1.5.0', to: '1.6.0', migrate: data => data }
+];
+
+/**
+ * Runs the migration chain from the file's version up to PROJECT_VERSION.
+ * Versions the chain doesn't know (e.g. files from a newer release) give an error message.
+ */
+export const migrateProject = (data: ProjectData): { data?: ProjectData; error?: string } => {
+  let current: ProjectData = { ...data, version: data.version || INITIAL_VERSION };
+  while (current.version !== PROJECT_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === current.version);
+    if (!step) {
+      return { error: `Unsupported project version "${current.version}" (this app reads up to ${PROJECT_VERSION}).` };
+    }
+    current = { ...step.migrate(current), version: step.to };
+  }
+  return { data: current };
+};
+
+/**
+ * Brings trusted project data (the app's own storage) up to the current data model.
+ * Files and pasted data go through readProject instead.
+ */
+export const normalizeProject = (data: ProjectData): ProjectData => {
+  return migrateProject(data).data ?? { ...data, version: PROJECT_VERSION };
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBooleanArray = (value: unknown): value is boolean[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'boolean');
+
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Checks the pin counts a node must have for its type.
+ */
+const validatePinCounts = (
+  node: CircuitNode,
+  path: string,
+  definitions: Map<string, ComponentDefinition>,
+  errors: string[]
+) => {
+  const config = COMPONENT_CONFIGS[node.type];
+  const width = getBitWidth(node);
+  let inputCount = config.inputCount;
+  let outputCount = config.outputCount;
+
+  if (node.type === GateType.SUBCIRCUIT) {
+    const definition = node.componentId !== undefined ? definitions.get(node.componentId) : undefined;
+    if (!definition) {
+      errors.push(`${path}.componentId: no component definition "${node.componentId}"`);
+      return;
+    }
+    inputCount = definition.inputNodeIds.length;
+    outputCount = definition.outputNodeIds.length;
+  } else if (node.type === GateType.MERGER) {
+    inputCount = width;
+  } else if (node.type === GateType.SPLITTER) {
+    outputCount = width;
+  }
+
+  if (VARIABLE_INPUT_TYPES.has(node.type)) {
+    if (node.inputs.length < MIN_INPUTS || node.inputs.length > MAX_INPUTS) {
+      errors.push(`${path}.inputs: ${node.type} needs ${MIN_INPUTS} to ${MAX_INPUTS} inputs, found ${node.inputs.length}`);
+    }
+  } else if (node.inputs.length !== inputCount) {
+    errors.push(`${path}.inputs: ${node.type} needs ${inputCount} input(s), found ${node.inputs.length}`);
+  }
+  if (node.outputs.length !== outputCount) {
+    errors.push(`${path}.outputs: ${node.type} needs ${outputCount} output(s), found ${node.outputs.length}`);
+  }
+};
+
+/**
+ * Validates one circuit level (the project itself or a component definition).
+ */
+const validateCircuit = (
+  nodes: unknown,
+  wires: unknown,
+  path: string,
+  definitions: Map<string, ComponentDefinition>,
+  errors: string[]
+) => {
+  const prefix = path ? `${path}.` : '';
+  if (!Array.isArray(nodes)) {
+    errors.push(`${prefix}nodes: expected an array`);
+    return;
+  }
+  if (!Array.isArray(wires)) {
+    errors.push(`${prefix}wires: expected an array`);
+    return;
+  }
+
+  const knownTypes = new Set(Object.values(GateType) as string[]);
+  const nodeMap = new Map<string, CircuitNode>();
+
+  nodes.forEach((raw, i) => {
+    const nodePath = `${prefix}nodes[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${nodePath}: expected an object`);
+      return;
+    }
+    const errorCount = errors.length;
+    if (typeof raw.id !== 'string' || raw.id === '') errors.push(`${nodePath}.id: expected a non-empty string`);
+    else if (nodeMap.has(raw.id)) errors.push(`${nodePath}.id: duplicate id "${raw.id}"`);
+    if (!knownTypes.has(raw.type)) errors.push(`${nodePath}.type: unknown component type "${raw.type}"`);
+    if (!isObject(raw.position) || !isNumber(raw.position.x) || !isNumber(raw.position.y)) {
+      errors.push(`${nodePath}.position: expected { x, y } numbers`);
+    }
+    if (!isNumber(raw.width) || !isNumber(raw.height)) errors.push(`${nodePath}: width and height must be numbers`);
+    if (!isBooleanArray(raw.inputs)) errors.push(`${nodePath}.inputs: expected an array of booleans`);
+    if (!isBooleanArray(raw.outputs)) errors.push(`${nodePath}.outputs: expected an array of booleans`);
+    if (raw.bitWidth !== undefined && (!Number.isInteger(raw.bitWidth) || raw.bitWidth < 1 || raw.bitWidth > MAX_BIT_WIDTH)) {
+      errors.push(`${nodePath}.bitWidth: expected a whole number from 1 to ${MAX_BIT_WIDTH}`);
+    }
+    if (raw.delay !== undefined && (!isNumber(raw.delay) || raw.delay < 0)) {
+      errors.push(`${nodePath}.delay: expected a non-negative number`);
+    }
+    if (raw.frequency !== undefined && (!isNumber(raw.frequency) || raw.frequency <= 0)) {
+      errors.push(`${nodePath}.frequency: expected a positive number`);
+    }
+    if (raw.dutyCycle !== undefined && (!isNumber(raw.dutyCycle) || raw.dutyCycle <= 0 || raw.dutyCycle >= 100)) {
+      errors.push(`${nodePath}.dutyCycle: expected a percentage between 0 and 100`);
+    }
+    if (raw.phase !== undefined && !isNumber(raw.phase)) errors.push(`${nodePath}.phase: expected a number`);
+    if (errors.length > errorCount) return;
+
+    const node = raw as CircuitNode;
+    validatePinCounts(node, nodePath, definitions, errors);
+    nodeMap.set(node.id, node);
+  });
+
+  // Subcircuit outputs are as wide as the definition's lamps; saved instance state is rebuilt on load
+  const outputPinWidth = (node: CircuitNode, pinIndex: number): number => {
+    if (node.type !== GateType.SUBCIRCUIT) return getOutputPinWidth(node, pinIndex);
+    const definition = definitions.get(node.componentId!);
+    const lampId = Array.isArray(definition?.outputNodeIds) ? definition!.outputNodeIds[pinIndex] : undefined;
+    const lamp = definition?.nodes.find(n => n.id === lampId);
+    return lamp ? getBitWidth(lamp) : 1;
+  };
+
+  const wireIds = new Set<string>();
+  const junctions: { wirePath: string; parentId: string }[] = [];
+  wires.forEach((raw, i) => {
+    const wirePath = `${prefix}wires[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${wirePath}: expected an object`);
+      return;
+    }
+    if (typeof raw.id !== 'string' || raw.id === '') errors.push(`${wirePath}.id: expected a non-empty string`);
+    else if (wireIds.has(raw.id)) errors.push(`${wirePath}.id: duplicate id "${raw.id}"`);
+    else wireIds.add(raw.id);
+
+    const source = nodeMap.get(raw.sourceNodeId);
+    const target = nodeMap.get(raw.targetNodeId);
+    if (!source) errors.push(`${wirePath}.sourceNodeId: no node "${raw.sourceNodeId}"`);
+    if (!target) errors.push(`${wirePath}.targetNodeId: no node "${raw.targetNodeId}"`);
+    if (!source || !target) return;
+
+    const wire = raw as Wire;
+    if (!isIndex(wire.sourcePinIndex) || wire.sourcePinIndex >= source.outputs.length) {
+      errors.push(`${wirePath}.sourcePinIndex: ${source.type} "${source.label}" has no output ${wire.sourcePinIndex}`);
+      return;
+    }
+    if (!isIndex(wire.targetPinIndex) || wire.targetPinIndex >= target.inputs.length) {
+      errors.push(`${wirePath}.targetPinIndex: ${target.type} "${target.label}" has no input ${wire.targetPinIndex}`);
+      return;
+    }
+    const sourceWidth = outputPinWidth(source, wire.sourcePinIndex);
+    const targetWidth = getInputPinWidth(target, wire.targetPinIndex);
+    if (sourceWidth !== targetWidth) {
+      errors.push(`${wirePath}: connects a ${sourceWidth}-bit output to a ${targetWidth}-bit input`);
+    }
+
+    if (raw.waypoints !== undefined && (!Array.isArray(raw.waypoints) || !raw.waypoints.every(p => isObject(p) && isNumber(p.x) && isNumber(p.y)))) {
+      errors.push(`${wirePath}.waypoints: expected a list of { x, y } numbers`);
+    }
+    if (raw.junction !== undefined) {
+      if (!isObject(raw.junction) || typeof raw.junction.wireId !== 'string' || !isNumber(raw.junction.t) || raw.junction.t < 0 || raw.junction.t > 1) {
+        errors.push(`${wirePath}.junction: expected { wireId, t } with t from 0 to 1`);
+      } else {
+        junctions.push({ wirePath, parentId: raw.junction.wireId });
+      }
+    }
+  });
+
+  // Branches may refer to wires listed after them
+  junctions.forEach(({ wirePath, parentId }) => {
+    if (!wireIds.has(parentId)) errors.push(`${wirePath}.junction.wireId: no wire "${parentId}"`);
+  });
+};
+
+const isSignalValue = (value: unknown): boolean => value === 'X' || value === 'Z' || isIndex(value);
+
+/**
+ * Checks the shape of the stored test vectors; labels are only resolved when they run.
+ */
+const validateTestVectors = (vectors: unknown, errors: string[]) => {
+  if (vectors === undefined) return;
+  if (!Array.isArray(vectors)) {
+    errors.push('testVectors: expected an array');
+    return;
+  }
+  vectors.forEach((raw, i) => {
+    const path = `testVectors[${i}]`;
+    if (!isObject(raw) || !isObject(raw.inputs) || !isObject(raw.expected)) {
+      errors.push(`${path}: expected { inputs, expected } objects`);
+      return;
+    }
+    if (!Object.values(raw.inputs).every(v => v === 0 || v === 1)) errors.push(`${path}.inputs: values must be 0 or 1`);
+    if (!Object.values(raw.expected).every(isSignalValue)) errors.push(`${path}.expected: values must be numbers, X or Z`);
+    if (raw.steps !== undefined && !isIndex(raw.steps)) errors.push(`${path}.steps: expected a whole number`);
+  });
+};
+
+/**
+ * Validates a migrated project. Errors name the offending field,
+ * e.g. `wires[3].targetNodeId: no node "abc"`.
+ */
+export const validateProject = (data: ProjectData): string[] => {
+  const errors: string[] = [];
+
+  if (data.camera !== undefined &&
+      (!isObject(data.camera) || !isNumber(data.camera.x) || !isNumber(data.camera.y) || !isNumber(data.camera.zoom))) {
+    errors.push('camera: expected { x, y, zoom } numbers');
+  }
+
+  const components: unknown = data.components ?? [];
+  if (!Array.isArray(components)) {
+    errors.push('components: expected an array');
+    return errors;
+  }
+
+  const definitions = new Map<string, ComponentDefinition>();
+  components.forEach((raw, i) => {
+    if (!isObject(raw) || typeof raw.id !== 'string') {
+      errors.push(`components[${i}]: expected an object with an id`);
+      return;
+    }
+    definitions.set(raw.id, raw as ComponentDefinition);
+  });
+
+  components.forEach((definition, i) => {
+    if (!isObject(definition)) return;
+    const path = `components[${i}]`;
+    validateCircuit(definition.nodes, definition.wires, path, definitions, errors);
+    if (!Array.isArray(definition.nodes)) return;
+
+    // Pins must point at the definition's own switches / lamps
+    const checkPins = (ids: unknown, type: GateType, field: string) => {
+      if (!Array.isArray(ids)) {
+        errors.push(`${path}.${field}: expected an array of node ids`);
+        return;
+      }
+      ids.forEach((id, j) => {
+        const node = definition.nodes.find((n: CircuitNode) => n?.id === id);
+        if (!node || node.type !== type) errors.push(`${path}.${field}[${j}]: no ${type} node "${id}"`);
+      });
+    };
+    checkPins(definition.inputNodeIds, GateType.INPUT_SWITCH, 'inputNodeIds');
+    checkPins(definition.outputNodeIds, GateType.OUTPUT_LAMP, 'outputNodeIds');
+  });
+
+  validateCircuit(data.nodes, data.wires, '', definitions, errors);
+  validateTestVectors(data.testVectors, errors);
+  return errors;
+};
+
+/**
+ * Reads untrusted project data (a loaded file, the clipboard): migrates it to the
+ * current version, then validates it. Returns either `data` or a non-empty `errors` list.
+ */
+export const readProject = (raw: unknown): { data?: ProjectData; errors: string[] } => {
+  if (!isObject(raw)) return { errors: ['Expected a JSON object.'] };
+  if (!Array.isArray(raw.nodes) || !Array.isArray(raw.wires)) {
+    return { errors: ['Missing the "nodes" / "wires" arrays.'] };
+  }
+  if (raw.version !== undefined && typeof raw.version !== 'string') {
+    return { errors: ['version: expected a string'] };
+  }
+
+  // Migrations assume node objects (and component node lists) are in place
+  const malformed = raw.nodes.findIndex((n: unknown) => !isObject(n));
+  if (malformed !== -1) return { errors: [`nodes[${malformed}]: expected an object`] };
+  if (raw.components !== undefined &&
+      (!Array.isArray(raw.components) || raw.components.some((c: unknown) => !isObject(c) || !Array.isArray(c.nodes) || !c.nodes.every(isObject)))) {
+    return { errors: ['components: expected an array of definitions with "nodes" arrays'] };
+  }
+
+  const migrated = migrateProject(raw as ProjectData);
+  if (!migrated.data) return { errors: [migrated.error!] };
+
+  const errors = validateProject(migrated.data);
+  if (errors.length > 0) return { errors };
+  return {
+    data: { ...migrated.data, camera: migrated.data.camera ?? { x: 0, y: 0, zoom: 1 } },
+    errors: []
+  };
+};
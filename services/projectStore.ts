@@ -0,0 +1,92 @@
+import { ProjectData, StoredProject, ProjectSummary } from '../types';
+
+const DB_NAME = 'logicgatesim';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const META = 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry if opening failed (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Lists the stored projects, most recently saved first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await runRequest<StoredProject[]>(PROJECTS, 'readonly', store => store.getAll());
+  return records
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = (id: string): Promise<StoredProject | undefined> =>
+  runRequest<StoredProject | undefined>(PROJECTS, 'readonly', store => store.get(id));
+
+export const saveProject = (project: StoredProject): Promise<void> =>
+  runRequest<void>(PROJECTS, 'readwrite', store => store.put(project));
+
+export const deleteProject = (id: string): Promise<void> =>
+  runRequest<void>(PROJECTS, 'readwrite', store => store.delete(id));
+
+/**
+ * Renames a stored project without touching its circuit.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (project) await saveProject({ ...project, name });
+};
+
+/**
+ * Stores a copy of a project under a new id.
+ */
+export const duplicateProject = async (id: string, newId: string, name: string): Promise<StoredProject | undefined> => {
+  const project = await loadProject(id);
+  if (!project) return undefined;
+  const copy: StoredProject = { ...project, id: newId, name, updatedAt: Date.now() };
+  await saveProject(copy);
+  return copy;
+};
+
+// The project open in the last session, reopened on start
+export const getLastProjectId = (): Promise<string | undefined> =>
+  runRequest<string | undefined>(META, 'readonly', store => store.get('lastProjectId'));
+
+export const setLastProjectId = (id: string): Promise<void> =>
+  runRequest<void>(META, 'readwrite', store => store.put(id, 'lastProjectId'));
+
+export const createStoredProject = (id: string, name: string, data: ProjectData): StoredProject => ({
+  id,
+  name,
+  updatedAt: Date.now(),
+  data
+});
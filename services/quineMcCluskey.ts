@@ -1,54 +1,45 @@
 import { CircuitNode, Wire, GateType } from '../types';
 import { COMPONENT_CONFIGS, PIN_SPACING } from '../constants';
+import { generateId } from './ids';
 
 // --- Types ---
 export type Term = string; // e.g., "01-1" where - is don't care
+export type TruthValue = 0 | 1 | 'X'; // Truth table cell, X = don't care
 
 // --- Quine-McCluskey Algorithm Helpers ---
 
-const combineTerms = (t1: string, t2: string): string | null => {
-  let diffIndex = -1;
-  for (let i = 0; i < t1.length; i++) {
-    if (t1[i] !== t2[i]) {
-      if (diffIndex !== -1) return null; // More than 1 difference
-      diffIndex = i;
-    }
-  }
-  if (diffIndex === -1) return null; // Identical
-  return t1.substring(0, diffIndex) + '-' + t1.substring(diffIndex + 1);
-};
-
-export const solveQuineMcCluskey = (numVars: number, minterms: number[]): string[] => {
+/**
+ * Prime implicants of a function. Don't-care rows may be merged into implicants,
+ * but implicants covering only don't-cares are dropped.
+ */
+export const solveQuineMcCluskey = (numVars: number, minterms: number[], dontCares: number[] = []): string[] => {
   if (minterms.length === 0) return [];
-  if (minterms.length === Math.pow(2, numVars)) return ['-'.repeat(numVars)]; // Always True
+  if (new Set([...minterms, ...dontCares]).size === Math.pow(2, numVars)) return ['-'.repeat(numVars)]; // Always True
 
   // 1. Initialize groups
-  let groups: Map<string, boolean> = new Map();
-  minterms.forEach(m => {
-    const bin = m.toString(2).padStart(numVars, '0');
-    groups.set(bin, false);
-  });
+  let currentTerms = new Set<string>();
+  [...minterms, ...dontCares].forEach(m => currentTerms.add(m.toString(2).padStart(numVars, '0')));
 
-  let primeImplicants = new Set<string>();
+  const primeImplicants = new Set<string>();
   
   // 2. Iteratively combine
-  let currentTerms = Array.from(groups.keys());
-  
-  while (currentTerms.length > 0) {
+  while (currentTerms.size > 0) {
     const nextTerms = new Set<string>();
     const usedTerms = new Set<string>();
     
-    // Compare every term with every other term
-    for (let i = 0; i < currentTerms.length; i++) {
-      for (let j = i + 1; j < currentTerms.length; j++) {
-        const combined = combineTerms(currentTerms[i], currentTerms[j]);
-        if (combined) {
-          nextTerms.add(combined);
-          usedTerms.add(currentTerms[i]);
-          usedTerms.add(currentTerms[j]);
+    // A term combines with the one that has a 1 where it has a 0 (same dashes):
+    // looking that partner up is linear, unlike comparing every pair
+    currentTerms.forEach(term => {
+      for (let i = 0; i < term.length; i++) {
+        if (term[i] !== '0') continue;
+        const partner = term.substring(0, i) + '1' + term.substring(i + 1);
+        if (currentTerms.has(partner)) {
+          nextTerms.add(term.substring(0, i) + '-' + term.substring(i + 1));
+          usedTerms.add(term);
+          usedTerms.add(partner);
         }
       }
-    }
+    });
 
     // Terms that couldn't be combined are Prime Implicants
     currentTerms.forEach(t => {
@@ -57,18 +48,241 @@ export const solveQuineMcCluskey = (numVars: number, minterms: number[]): string
       }
     });
 
-    if (nextTerms.size === 0) break;
-    currentTerms = Array.from(nextTerms);
+    currentTerms = nextTerms;
+  }
+
+  return Array.from(primeImplicants)
+    .filter(p => minterms.some(m => termCovers(p, m)))
+    .sort();
+};
+
+// Bit masks of a term: which variables it fixes, and to what
+const termMask = (term: string) => {
+  let care = 0;
+  let value = 0;
+  for (let i = 0; i < term.length; i++) {
+    care <<= 1;
+    value <<= 1;
+    if (term[i] !== '-') care |= 1;
+    if (term[i] === '1') value |= 1;
+  }
+  return { care, value };
+};
+
+// Whether a term ("1-0") covers a minterm
+export const termCovers = (term: string, minterm: number): boolean => {
+  const { care, value } = termMask(term);
+  return (minterm & care) === value;
+};
+
+const literalCount = (term: string) => term.replace(/-/g, '').length;
+
+// Petrick's method is exact but multiplies out; beyond these sizes the greedy cover takes over
+const PETRICK_MAX_IMPLICANTS = 30;
+const PETRICK_MAX_PRODUCTS = 2000;
+
+/**
+ * Petrick's method: the cheapest set of implicants (fewest terms, then fewest literals)
+ * covering every minterm. Returns null when the expansion gets too large.
+ */
+const petrickCover = (primes: string[], minterms: number[]): string[] | null => {
+  if (primes.length > PETRICK_MAX_IMPLICANTS) return null;
+  const masks = primes.map(termMask);
+
+  // Products as bit sets over `primes`; absorption (X + XY = X) keeps the list small
+  let products: number[] = [0];
+  for (const m of minterms) {
+    let sum = 0;
+    masks.forEach(({ care, value }, i) => {
+      if ((m & care) === value) sum |= 1 << i;
+    });
+    const next = new Set<number>();
+    products.forEach(p => {
+      if (p & sum) {
+        next.add(p);
+        return;
+      }
+      for (let i = 0; i < primes.length; i++) {
+        if (sum & (1 << i)) next.add(p | (1 << i));
+      }
+    });
+    if (next.size > PETRICK_MAX_PRODUCTS * 4) return null;
+    products = absorb(next);
+    if (products.length > PETRICK_MAX_PRODUCTS) return null;
   }
 
-  // Simple optimization: Remove redundant Prime Implicants (simplified approach)
-  // For a visual tool, displaying all PIs is often clearer than a heavily minimized confusing set,
-  // but we sort them for consistency.
-  return Array.from(primeImplicants).sort();
+  const cost = (p: number) => primes.reduce(
+    (sum, t, i) => (p & (1 << i) ? sum + 1000 + literalCount(t) : sum), 0
+  );
+  const best = products.reduce((a, b) => (cost(b) < cost(a) ? b : a));
+  return primes.filter((_, i) => best & (1 << i));
+};
+
+const bitCount = (n: number) => {
+  let count = 0;
+  for (let v = n; v; v &= v - 1) count++;
+  return count;
+};
+
+// Drops products containing a smaller one, in one pass from the smallest. Each product is tested
+// against its own subsets or against the products kept so far, whichever are fewer.
+const absorb = (products: Set<number>): number[] => {
+  const sorted = Array.from(products).sort((a, b) => bitCount(a) - bitCount(b));
+  const kept: number[] = [];
+  const keptSet = new Set<number>();
+  sorted.forEach(p => {
+    let absorbed = false;
+    if (1 << bitCount(p) < kept.length) {
+      for (let q = (p - 1) & p; q > 0 && !absorbed; q = (q - 1) & p) absorbed = keptSet.has(q);
+    } else {
+      absorbed = kept.some(q => (q & p) === q);
+    }
+    if (absorbed) return;
+    kept.push(p);
+    keptSet.add(p);
+  });
+  return kept;
+};
+
+/**
+ * Picks a small set of prime implicants covering every minterm:
+ * essential implicants first, then Petrick's method on what is left
+ * (or, for large cyclic remainders, greedily the one covering most).
+ */
+export const selectMinimalCover = (primes: string[], minterms: number[]): string[] => {
+  const masks = new Map(primes.map(p => [p, termMask(p)]));
+  const covers = (p: string, m: number) => (m & masks.get(p)!.care) === masks.get(p)!.value;
+  const cover: string[] = [];
+
+  minterms.forEach(m => {
+    const covering = primes.filter(p => covers(p, m));
+    if (covering.length === 1 && !cover.includes(covering[0])) cover.push(covering[0]);
+  });
+  const remaining = minterms.filter(m => !cover.some(t => covers(t, m)));
+  if (remaining.length === 0) return cover.sort();
+
+  const candidates = primes.filter(p => !cover.includes(p) && remaining.some(m => covers(p, m)));
+  const exact = petrickCover(candidates, remaining);
+  if (exact) return [...cover, ...exact].sort();
+
+  const uncovered = new Set(remaining);
+  const coveredBy = new Map(candidates.map(p => [p, remaining.filter(m => covers(p, m))]));
+  while (uncovered.size > 0) {
+    // Ties go to the implicant with fewer literals
+    let best = '';
+    let bestCount = 0;
+    candidates.forEach(p => {
+      const count = coveredBy.get(p)!.filter(m => uncovered.has(m)).length;
+      if (count > bestCount || (count === bestCount && count > 0 && literalCount(p) < literalCount(best))) {
+        best = p;
+        bestCount = count;
+      }
+    });
+    if (!best) break;
+    cover.push(best);
+    coveredBy.get(best)!.forEach(m => uncovered.delete(m));
+  }
+  return cover.sort();
+};
+
+/**
+ * Minimal sum of products for a list of minterms.
+ */
+export const minimiseSumOfProducts = (numVars: number, minterms: number[], dontCares: number[] = []): string[] =>
+  selectMinimalCover(solveQuineMcCluskey(numVars, minterms, dontCares), minterms);
+
+export interface OutputFunction {
+  minterms: number[];
+  dontCares: number[];
+}
+
+/**
+ * Minimises several outputs together so they can share product terms.
+ * Candidates are the prime implicants of every product of outputs (f1·f2, f1·f3, ...):
+ * such a term is an implicant of each output in the product, so one AND gate can feed all of them.
+ * Terms are picked greedily by how many uncovered (output, minterm) pairs they cover,
+ * then each output drops the terms it no longer needs.
+ */
+export const minimiseMultiOutput = (numVars: number, functions: OutputFunction[]): string[][] => {
+  if (functions.length === 1) {
+    return [minimiseSumOfProducts(numVars, functions[0].minterms, functions[0].dontCares)];
+  }
+
+  const allowed = functions.map(f => new Set([...f.minterms, ...f.dontCares]));
+  const onSets = functions.map(f => new Set(f.minterms));
+  const candidates = new Set<string>();
+  for (let subset = 1; subset < (1 << functions.length); subset++) {
+    const members = functions.map((_, i) => i).filter(i => subset & (1 << i));
+    const points = Array.from(allowed[members[0]]).filter(m => members.every(i => allowed[i].has(m)));
+    const ones = points.filter(m => members.some(i => onSets[i].has(m)));
+    const dontCares = points.filter(m => !members.some(i => onSets[i].has(m)));
+    solveQuineMcCluskey(numVars, ones, dontCares).forEach(t => candidates.add(t));
+  }
+
+  // Outputs a term may feed: every row it covers must be a 1 or don't-care there
+  const validFor = new Map<string, number[]>();
+  const masks = new Map<string, { care: number, value: number }>();
+  candidates.forEach(t => {
+    const { care, value } = termMask(t);
+    masks.set(t, { care, value });
+    const covered: number[] = [];
+    for (let m = 0; m < Math.pow(2, numVars); m++) {
+      if ((m & care) === value) covered.push(m);
+    }
+    validFor.set(t, functions.map((_, i) => i).filter(i => covered.every(m => allowed[i].has(m))));
+  });
+
+  // Minterms each candidate covers, per output it may feed
+  const hitsOf = new Map<string, { output: number, minterms: number[] }[]>();
+  candidates.forEach(t => {
+    const { care, value } = masks.get(t)!;
+    hitsOf.set(t, validFor.get(t)!.map(i => ({
+      output: i,
+      minterms: functions[i].minterms.filter(m => (m & care) === value)
+    })));
+  });
+
+  const covers: string[][] = functions.map(() => []);
+  const uncovered = functions.map(f => new Set(f.minterms));
+  while (uncovered.some(u => u.size > 0)) {
+    let best = '';
+    let bestGain = 0;
+    candidates.forEach(t => {
+      const gain = hitsOf.get(t)!.reduce(
+        (sum, { output, minterms }) => sum + minterms.filter(m => uncovered[output].has(m)).length, 0
+      );
+      if (gain > bestGain || (gain === bestGain && gain > 0 && literalCount(t) < literalCount(best))) {
+        best = t;
+        bestGain = gain;
+      }
+    });
+    if (!best) break;
+    hitsOf.get(best)!.forEach(({ output, minterms }) => {
+      const hits = minterms.filter(m => uncovered[output].has(m));
+      if (hits.length === 0) return;
+      covers[output].push(best);
+      hits.forEach(m => uncovered[output].delete(m));
+    });
+  }
+
+  // Remove terms another term of the same output already covers, largest first
+  return covers.map((cover, i) => {
+    const kept = [...cover].sort((a, b) => literalCount(b) - literalCount(a));
+    [...kept].forEach(t => {
+      const others = kept.filter(o => o !== t);
+      if (functions[i].minterms.filter(m => termCovers(t, m)).every(m => others.some(o => termCovers(o, m)))) {
+        kept.splice(kept.indexOf(t), 1);
+      }
+    });
+    return kept.sort();
+  });
 };
 
 // --- Equation Generator ---
 
+// Literals of multi-letter names need a visible AND
+const productJoiner = (variableNames: string[]) => variableNames.some(n => n.length > 1) ? "·" : "";
+
 export const termsToEquation = (terms: string[], variableNames: string[]): string => {
   if (terms.length === 0) return "0 (False)";
   
@@ -76,262 +290,339 @@ export const termsToEquation = (terms: string[], variableNames: string[]): strin
   if (terms.some(t => t.split('').every(c => c === '-'))) return "1 (True)";
 
   const parts = terms.map(term => {
-    let part = "";
+    const literals: string[] = [];
     for (let i = 0; i < term.length; i++) {
       if (term[i] === '1') {
-        part += variableNames[i];
+        literals.push(variableNames[i]);
       } else if (term[i] === '0') {
-        part += variableNames[i] + "'"; // using ' for NOT
+        literals.push(variableNames[i] + "'"); // using ' for NOT
       }
     }
-    return part === "" ? "1" : part;
+    return literals.length === 0 ? "1" : literals.join(productJoiner(variableNames));
   });
 
   return parts.join(" + ");
 };
 
+/**
+ * Target form of the generated circuit.
+ * POS and NOR-only are built from the cover of the complement (the maxterms).
+ */
+export type SynthesisForm = 'SOP' | 'POS' | 'NAND' | 'NOR';
+
+// Whether the terms of a form describe the complement of the function
+export const usesComplement = (form: SynthesisForm) => form === 'POS' || form === 'NOR';
+
+/**
+ * Writes the terms of one output in the given form.
+ * For POS / NOR the terms are implicants of the complement, so each becomes a sum of inverted literals.
+ */
+export const formatEquation = (terms: string[], variableNames: string[], form: SynthesisForm): string => {
+  if (form === 'SOP') return termsToEquation(terms, variableNames);
+
+  const complement = usesComplement(form);
+  const isTautology = terms.some(t => t.split('').every(c => c === '-'));
+  if (terms.length === 0) return complement ? "1 (True)" : "0 (False)";
+  if (isTautology) return complement ? "0 (False)" : "1 (True)";
+
+  // Literals as they appear in the function: positive unless the term says otherwise
+  const literals = (term: string) => term.split('').flatMap((c, i) => {
+    if (c === '-') return [];
+    const positive = complement ? c === '0' : c === '1';
+    return [positive ? variableNames[i] : variableNames[i] + "'"];
+  });
+  const invert = (literal: string) => literal.endsWith("'") ? literal.slice(0, -1) : literal + "'";
+
+  if (form === 'POS') {
+    return terms.map(t => literals(t).length === 1 ? literals(t)[0] : `(${literals(t).join(" + ")})`).join("");
+  }
+
+  // NAND-NAND / NOR-NOR: every first-level gate inverts its group
+  const join = form === 'NAND' ? productJoiner(variableNames) : " + ";
+  const groups = terms.map(t => {
+    const parts = literals(t);
+    return parts.length === 1 ? invert(parts[0]) : `(${parts.join(join)})'`;
+  });
+  if (terms.length === 1) return literals(terms[0]).length === 1 ? literals(terms[0])[0] : `(${groups[0]})'`;
+  return `(${groups.join(form === 'NAND' ? " " : " + ")})'`;
+};
+
 // --- Circuit Generator ---
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const FORM_GATES: Record<SynthesisForm, { first: GateType, second: GateType, inverter: GateType }> = {
+  SOP: { first: GateType.AND, second: GateType.OR, inverter: GateType.NOT },
+  POS: { first: GateType.OR, second: GateType.AND, inverter: GateType.NOT },
+  NAND: { first: GateType.NAND, second: GateType.NAND, inverter: GateType.NAND },
+  NOR: { first: GateType.NOR, second: GateType.NOR, inverter: GateType.NOR }
+};
 
+/**
+ * Builds the two-level circuit for one or more outputs.
+ * Identical terms share one first-level gate, which then feeds every output that uses it.
+ * NAND-only and NOR-only circuits invert with a two-input gate whose inputs are tied together.
+ */
 export const generateCircuitFromTerms = (
   numVars: number, 
-  terms: string[], 
-  startPos: { x: number, y: number }
+  outputTerms: string[][], 
+  startPos: { x: number, y: number },
+  variableNames: string[] = ['A', 'B', 'C', 'D'],
+  outputNames: string[] = outputTerms.length === 1 ? ['Q'] : outputTerms.map((_, i) => `Q${i}`),
+  form: SynthesisForm = 'SOP'
 ): { nodes: CircuitNode[], wires: Wire[] } => {
   const nodes: CircuitNode[] = [];
   const wires: Wire[] = [];
+  const gates = FORM_GATES[form];
+  const complement = usesComplement(form);
+  const twoLevelInverting = form === 'NAND' || form === 'NOR';
 
   // Layout Constants
   const COL_Spacing = 180;
   const ROW_Spacing = 80;
 
-  // 1. Create Input Switches (Column 0)
-  const inputs: CircuitNode[] = [];
-  const inputLabels = ['A', 'B', 'C', 'D'].slice(0, numVars);
-  
-  inputLabels.forEach((label, i) => {
+  const connect = (sourceNodeId: string, targetNodeId: string, targetPinIndex: number) => {
+    wires.push({
+      id: generateId(),
+      sourceNodeId,
+      sourcePinIndex: 0,
+      targetNodeId,
+      targetPinIndex,
+      state: false
+    });
+  };
+
+  const createGate = (type: GateType, inputCount: number, position: { x: number, y: number }): CircuitNode => {
+    const node: CircuitNode = {
+      id: generateId(),
+      type,
+      position,
+      width: COMPONENT_CONFIGS[type].width,
+      height: type === GateType.NOT ? COMPONENT_CONFIGS[type].height : (inputCount + 1) * PIN_SPACING,
+      inputs: new Array(inputCount).fill(false),
+      outputs: [false],
+      state: false,
+      label: COMPONENT_CONFIGS[type].label
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  // NOT, or a NAND / NOR with both inputs on the same signal
+  const createInverter = (sourceNodeId: string, position: { x: number, y: number }): CircuitNode => {
+    const tied = gates.inverter !== GateType.NOT;
+    const inverter = createGate(gates.inverter, tied ? 2 : 1, position);
+    connect(sourceNodeId, inverter.id, 0);
+    if (tied) connect(sourceNodeId, inverter.id, 1);
+    return inverter;
+  };
+
+  const createSwitch = (label: string, y: number, state = false): CircuitNode => {
     const node: CircuitNode = {
       id: generateId(),
       type: GateType.INPUT_SWITCH,
-      position: { x: startPos.x, y: startPos.y + (i * ROW_Spacing) },
+      position: { x: startPos.x, y },
       width: 50,
       height: 50,
       inputs: [],
-      state: false,
-      label: label
+      outputs: [state],
+      state,
+      label
     };
-    inputs.push(node);
     nodes.push(node);
-  });
+    return node;
+  };
 
-  // 2. Create NOT Gates (Column 1) - Only if needed by terms
-  // We strictly create NOTs based on the equation requirements.
-  const notGates: Map<number, CircuitNode> = new Map(); // inputIndex -> NotGate
-  const needsNot = new Array(numVars).fill(false);
-  
-  terms.forEach(term => {
-    for(let i=0; i<term.length; i++) {
-      if (term[i] === '0') needsNot[i] = true;
-    }
-  });
+  // 1. Create Input Switches (Column 0)
+  const inputs = variableNames.slice(0, numVars).map((label, i) => createSwitch(label, startPos.y + (i * ROW_Spacing)));
+
+  // A literal is positive when it is the plain variable in the final function's terms
+  const isPositive = (char: string) => complement ? char === '0' : char === '1';
+  const isConstantTerm = (term: string) => term.split('').every(c => c === '-');
+
+  // 2. Create Inverters (Column 1) - Only for the literals actually used
+  const inverters: Map<number, CircuitNode> = new Map(); // inputIndex -> inverter
+  const needsInverter = new Array(numVars).fill(false);
+  outputTerms.forEach(terms => terms.forEach(term => {
+    const used = term.split('').map((c, i) => c === '-' ? -1 : i).filter(i => i !== -1);
+    used.forEach(i => {
+      // A lone literal in a NAND / NOR network enters the second level inverted
+      const inverted = twoLevelInverting && used.length === 1 && terms.length > 1;
+      if (isPositive(term[i]) === inverted) needsInverter[i] = true;
+    });
+  }));
 
   inputs.forEach((inputNode, i) => {
-    if (needsNot[i]) {
-      const notNode: CircuitNode = {
-        id: generateId(),
-        type: GateType.NOT,
-        position: { x: startPos.x + COL_Spacing, y: inputNode.position.y + 10 },
-        width: COMPONENT_CONFIGS[GateType.NOT].width,
-        height: COMPONENT_CONFIGS[GateType.NOT].height,
-        inputs: [false],
-        state: false,
-        label: 'NOT'
-      };
-      nodes.push(notNode);
-      notGates.set(i, notNode);
-
-      wires.push({
-        id: generateId(),
-        sourceNodeId: inputNode.id,
-        sourcePinIndex: 0,
-        targetNodeId: notNode.id,
-        targetPinIndex: 0,
-        state: false
-      });
+    if (needsInverter[i]) {
+      inverters.set(i, createInverter(inputNode.id, { x: startPos.x + COL_Spacing, y: inputNode.position.y + 10 }));
     }
   });
 
-  // 3. Create Product Terms (AND Gates)
+  const literalSource = (i: number, positive: boolean) =>
+    positive ? { nodeId: inputs[i].id, y: inputs[i].position.y } : { nodeId: inverters.get(i)!.id, y: inverters.get(i)!.position.y };
+
+  // 3. Create First-Level Gates, one per distinct term
   interface TermOutput {
     sourceNodeId: string;
-    sourcePinIndex: number;
     yPosition: number;
+    isGate: boolean; // False when the term is a lone literal wired straight through
   }
 
-  const termOutputs: TermOutput[] = [];
+  const termOutputs: Map<string, TermOutput> = new Map();
   const AND_COL_X = startPos.x + (COL_Spacing * 2);
-  
-  terms.forEach((term, idx) => {
-    // If term is all dashes ("---"), it's logic 1. 
-    // Usually handled by logic before calling this, but if present:
-    if (term === '-'.repeat(numVars) && terms.length > 1) return; 
+  let lastBottom = -Infinity;
+
+  outputTerms.forEach(terms => terms.forEach(term => {
+    if (isConstantTerm(term)) return;
+    const used = term.split('').map((c, i) => c === '-' ? -1 : i).filter(i => i !== -1);
+    const lone = used.length === 1;
+    const inverted = twoLevelInverting && lone && terms.length > 1;
+    // A lone literal feeds outputs directly; the key keeps its two polarities apart
+    const key = lone ? `${term}:${inverted}` : term;
+    if (termOutputs.has(key)) return;
+
+    const connections = used.map(i => literalSource(i, isPositive(term[i]) !== inverted));
+    if (lone) {
+      // Direct connection (Single Variable Term)
+      termOutputs.set(key, { sourceNodeId: connections[0].nodeId, yPosition: connections[0].y, isGate: false });
+      return;
+    }
 
-    const connections: { nodeId: string, pinIndex: number, y: number }[] = [];
+    const inputCount = connections.length;
+    const height = (inputCount + 1) * PIN_SPACING;
     
-    for (let i = 0; i < term.length; i++) {
-      const char = term[i];
-      if (char === '1') {
-        connections.push({ nodeId: inputs[i].id, pinIndex: 0, y: inputs[i].position.y });
-      } else if (char === '0') {
-        const notNode = notGates.get(i);
-        if (notNode) connections.push({ nodeId: notNode.id, pinIndex: 0, y: notNode.position.y });
-      }
-    }
+    // Smart Positioning: Average Y of inputs, below the previous gate
+    const avgY = connections.reduce((sum, c) => sum + c.y, 0) / inputCount;
+    const yPos = Math.max(avgY - (height / 2), lastBottom + 20);
+    lastBottom = yPos + height;
 
-    if (connections.length === 0) {
-       // Term is "1" (Always True)
-       // We can represent this as a switch that defaults to ON, or ignore if part of a sum
-    } else if (connections.length === 1) {
-      // Direct connection (Single Variable Term)
-      termOutputs.push({
-        sourceNodeId: connections[0].nodeId,
-        sourcePinIndex: connections[0].pinIndex,
-        yPosition: connections[0].y
-      });
+    const gate = createGate(gates.first, inputCount, { x: AND_COL_X, y: yPos });
+    connections.forEach((conn, pinIdx) => connect(conn.nodeId, gate.id, pinIdx));
+    termOutputs.set(key, { sourceNodeId: gate.id, yPosition: yPos + (height / 2), isGate: true });
+  }));
+
+  // 4. Create Second-Level Gates and Output Lamps, one per output
+  const OR_COL_X = AND_COL_X + COL_Spacing + 40;
+  let lastLampBottom = -Infinity;
+  let constantHigh: CircuitNode | null = null;
+
+  outputTerms.forEach((terms, outputIdx) => {
+    // Constant outputs: a switch fixed ON drives 1, an unconnected lamp reads 0
+    const isTrue = complement ? terms.length === 0 : terms.some(isConstantTerm);
+    const isFalse = complement ? terms.some(isConstantTerm) : terms.length === 0;
+
+    const sources = isTrue || isFalse ? [] : terms.map(t => {
+      const lone = t.replace(/-/g, '').length === 1;
+      return termOutputs.get(lone ? `${t}:${twoLevelInverting && terms.length > 1}` : t)!;
+    });
+    let finalOutputNodeId = '';
+    // Half the height this output needs (gate or lamp), kept clear of the previous output
+    const halfHeight = Math.max(25, sources.length > 1 ? (sources.length + 1) * PIN_SPACING / 2 : 0);
+    const idealY = sources.length
+      ? sources.reduce((sum, t) => sum + t.yPosition, 0) / sources.length
+      : startPos.y + outputIdx * ROW_Spacing;
+    const lampY = Math.max(idealY, lastLampBottom + 20 + halfHeight);
+    lastLampBottom = lampY + halfHeight;
+
+    if (isTrue) {
+      if (!constantHigh) constantHigh = createSwitch('VCC', startPos.y + (numVars * ROW_Spacing), true);
+      finalOutputNodeId = constantHigh.id;
+    } else if (isFalse) {
+      // No terms = False. Lamp unconnected.
+    } else if (sources.length === 1) {
+      // Single term = Direct output (a NAND / NOR term gate still needs inverting)
+      finalOutputNodeId = twoLevelInverting && sources[0].isGate
+        ? createInverter(sources[0].sourceNodeId, { x: OR_COL_X, y: lampY - 20 }).id
+        : sources[0].sourceNodeId;
     } else {
-      // Create AND Gate (Product)
-      const inputCount = connections.length;
+      // Multiple terms = Second-Level Gate
+      const inputCount = sources.length;
       const height = (inputCount + 1) * PIN_SPACING;
-      
-      // Smart Positioning: Average Y of inputs
-      const avgY = connections.reduce((sum, c) => sum + c.y, 0) / inputCount;
-      
-      // Collision avoidance with previous gates
-      let yPos = avgY - (height / 2);
-      if (idx > 0) {
-        const prevY = termOutputs[termOutputs.length - 1]?.yPosition || -1000;
-        // Minimal vertical distance check
-        if (yPos < prevY + 60) {
-           yPos = prevY + 60;
-        }
-      }
-
-      const andNode: CircuitNode = {
-        id: generateId(),
-        type: GateType.AND,
-        position: { x: AND_COL_X, y: yPos },
-        width: COMPONENT_CONFIGS[GateType.AND].width,
-        height: height,
-        inputs: new Array(inputCount).fill(false),
-        state: false,
-        label: 'AND'
-      };
-      
-      nodes.push(andNode);
-      
-      connections.forEach((conn, pinIdx) => {
-        wires.push({
-          id: generateId(),
-          sourceNodeId: conn.nodeId,
-          sourcePinIndex: 0,
-          targetNodeId: andNode.id,
-          targetPinIndex: pinIdx,
-          state: false
-        });
-      });
-
-      termOutputs.push({
-        sourceNodeId: andNode.id,
-        sourcePinIndex: 0,
-        yPosition: yPos + (height / 2)
-      });
+      const gate = createGate(gates.second, inputCount, { x: OR_COL_X, y: lampY - (height / 2) });
+      finalOutputNodeId = gate.id;
+      sources.forEach((term, i) => connect(term.sourceNodeId, gate.id, i));
     }
-  });
 
-  // 4. Create Sum Term (OR Gate)
-  const OR_COL_X = AND_COL_X + COL_Spacing + 40;
-  let finalOutputNodeId = '';
-  let finalOutputPinIdx = 0;
-  let lampY = startPos.y;
-
-  if (termOutputs.length === 0) {
-     // No terms = False. Lamp unconnected.
-  } else if (termOutputs.length === 1) {
-    // Single term = Direct output
-    finalOutputNodeId = termOutputs[0].sourceNodeId;
-    finalOutputPinIdx = termOutputs[0].sourcePinIndex;
-    lampY = termOutputs[0].yPosition;
-  } else {
-    // Multiple terms = OR Gate
-    const inputCount = termOutputs.length;
-    const height = (inputCount + 1) * PIN_SPACING;
-    const avgY = termOutputs.reduce((sum, t) => sum + t.yPosition, 0) / inputCount;
-
-    const orNode: CircuitNode = {
+    // 5. Output Lamp
+    const lampNode: CircuitNode = {
       id: generateId(),
-      type: GateType.OR,
-      position: { x: OR_COL_X, y: avgY - (height/2) },
-      width: COMPONENT_CONFIGS[GateType.OR].width,
-      height: height,
-      inputs: new Array(inputCount).fill(false),
+      type: GateType.OUTPUT_LAMP,
+      position: { x: OR_COL_X + 100, y: lampY - 25 }, 
+      width: 50,
+      height: 50,
+      inputs: [false],
+      outputs: [],
       state: false,
-      label: 'OR'
+      label: outputNames[outputIdx]
     };
-    nodes.push(orNode);
-    finalOutputNodeId = orNode.id;
-    finalOutputPinIdx = 0;
-    lampY = avgY;
-
-    termOutputs.forEach((term, i) => {
-      wires.push({
-        id: generateId(),
-        sourceNodeId: term.sourceNodeId,
-        sourcePinIndex: term.sourcePinIndex,
-        targetNodeId: orNode.id,
-        targetPinIndex: i,
-        state: false
-      });
-    });
-  }
+    nodes.push(lampNode);
 
-  // 5. Output Lamp
-  const lampNode: CircuitNode = {
-    id: generateId(),
-    type: GateType.OUTPUT_LAMP,
-    position: { x: OR_COL_X + 100, y: lampY - 25 }, 
-    width: 50,
-    height: 50,
-    inputs: [false],
-    state: false,
-    label: 'Q'
-  };
-  nodes.push(lampNode);
+    if (finalOutputNodeId) {
+      connect(finalOutputNodeId, lampNode.id, 0);
+    }
+  });
 
-  if (finalOutputNodeId) {
-    wires.push({
-      id: generateId(),
-      sourceNodeId: finalOutputNodeId,
-      sourcePinIndex: finalOutputPinIdx,
-      targetNodeId: lampNode.id,
-      targetPinIndex: 0,
-      state: false
-    });
+  return { nodes, wires };
+};
+
+// Logic gates of a generated circuit, for comparing forms
+export const countGates = (nodes: CircuitNode[]): number =>
+  nodes.filter(n => n.type !== GateType.INPUT_SWITCH && n.type !== GateType.OUTPUT_LAMP).length;
+
+/**
+ * Compact list of row indices, with runs written as ranges: "1, 3, 5-7".
+ */
+export const formatMintermList = (indices: number[]): string => {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let end = i;
+    while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) end++;
+    parts.push(end > i + 1 ? `${sorted[i]}-${sorted[end]}` : end === i + 1 ? `${sorted[i]}, ${sorted[end]}` : `${sorted[i]}`);
+    i = end;
   }
+  return parts.join(", ");
+};
 
-  return { nodes, wires };
+/**
+ * Reads a list like "1, 3, 5-7" (commas or spaces), with every index below `rowCount`.
+ */
+export const parseMintermList = (text: string, rowCount: number): { indices?: number[], error?: string } => {
+  const indices = new Set<number>();
+  for (const part of text.split(/[\s,]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) return { error: `"${part}" is not a row number or range` };
+    const from = Number(match[1]);
+    const to = match[2] !== undefined ? Number(match[2]) : from;
+    if (to < from) return { error: `Range "${part}" is reversed` };
+    if (to >= rowCount) return { error: `Row ${to} is out of range (0-${rowCount - 1})` };
+    for (let m = from; m <= to; m++) indices.add(m);
+  }
+  return { indices: Array.from(indices).sort((a, b) => a - b) };
+};
+
+// Splits a truth table column into minterms and don't-cares
+export const truthTableToFunction = (truthTable: TruthValue[]): OutputFunction => ({
+  minterms: truthTable.map((val, idx) => val === 1 ? idx : -1).filter(idx => idx !== -1),
+  dontCares: truthTable.map((val, idx) => val === 'X' ? idx : -1).filter(idx => idx !== -1)
+});
+
+/**
+ * Minimal terms for every output in the given form (implicants of the complement for POS / NOR).
+ */
+export const minimiseTruthTables = (numVars: number, truthTables: TruthValue[][], form: SynthesisForm = 'SOP'): string[][] => {
+  const tables = usesComplement(form)
+    ? truthTables.map(t => t.map(v => (v === 'X' ? 'X' : v === 1 ? 0 : 1) as TruthValue))
+    : truthTables;
+  return minimiseMultiOutput(numVars, tables.map(truthTableToFunction));
 };
 
 // Wrapper for backward compatibility / direct calls
 export const generateCircuitFromTruthTable = (
     numVars: number, 
-    truthTable: boolean[], 
-    startPos: { x: number, y: number }
+    truthTables: TruthValue[][], 
+    startPos: { x: number, y: number },
+    form: SynthesisForm = 'SOP',
+    variableNames?: string[]
   ) => {
-    const minterms = truthTable
-      .map((val, idx) => val ? idx : -1)
-      .filter(idx => idx !== -1);
-      
-    const terms = solveQuineMcCluskey(numVars, minterms);
-    return generateCircuitFromTerms(numVars, terms, startPos);
-  };
\ No newline at end of file
+    const terms = minimiseTruthTables(numVars, truthTables, form);
+    return generateCircuitFromTerms(numVars, terms, startPos, variableNames, undefined, form);
+  };
@@ -1,5 +1,8 @@
-import { CircuitNode, GateType, Wire, Camera, InteractionMode } from '../types';
+import { CircuitNode, GateType, Wire, Camera, InteractionMode, CircuitDiagnostics, SignalValue } from '../types';
 import { COLORS, COMPONENT_CONFIGS, GRID_SIZE } from '../constants';
+import { getOutputValue, isHigh } from './circuitEngine';
+import { getBitWidth, getInputPinWidth, getOutputPinWidth, formatBusValue } from './buses';
+import { WireLayout, pointOnWire, bezierControls } from './wireRouter';
 
 export const worldToScreen = (x: number, y: number, camera: Camera) => {
   return {
@@ -15,6 +18,24 @@ export const screenToWorld = (x: number, y: number, camera: Camera) => {
   };
 };
 
+// --- Pin Geometry ---
+
+export const getOutputCount = (node: CircuitNode): number => {
+  return node.outputs.length;
+};
+
+// Input pins are spread evenly along the left edge (dynamic input count)
+export const getInputPinPosition = (node: CircuitNode, index: number) => {
+  const pinSpacing = node.height / (node.inputs.length + 1);
+  return { x: node.position.x, y: node.position.y + (pinSpacing * (index + 1)) };
+};
+
+// Output pins are spread evenly along the right edge (a single output sits in the middle)
+export const getOutputPinPosition = (node: CircuitNode, index: number) => {
+  const pinSpacing = node.height / (getOutputCount(node) + 1);
+  return { x: node.position.x + node.width, y: node.position.y + (pinSpacing * (index + 1)) };
+};
+
 // --- Geometry Helpers for Hit Testing ---
 
 const distToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
@@ -65,49 +86,32 @@ export const checkWireHit = (
   worldX: number, 
   worldY: number, 
   wires: Wire[], 
-  nodes: CircuitNode[]
+  wireLayout: WireLayout
 ): string | null => {
   const HIT_THRESHOLD = 8; // World units
+  const { paths } = wireLayout;
 
   for (const wire of wires) {
-    const sourceNode = nodes.find(n => n.id === wire.sourceNodeId);
-    const targetNode = nodes.find(n => n.id === wire.targetNodeId);
-    if (!sourceNode || !targetNode) continue;
-
-    // Calculate start/end points exactly as they are drawn
-    const startX = sourceNode.position.x + sourceNode.width;
-    const startY = sourceNode.position.y + (sourceNode.height / 2);
-    
-    // Use dynamic input count from the node instance
-    const inputCount = targetNode.inputs.length;
-    const pinSpacing = targetNode.height / (inputCount + 1);
-    const endX = targetNode.position.x;
-    const endY = targetNode.position.y + (pinSpacing * (wire.targetPinIndex + 1));
+    const path = paths.get(wire.id);
+    if (!path) continue;
 
-    const curveType = wire.curveType || 'bezier';
+    // Test against the shape exactly as it is drawn
+    const { points } = path;
     let dist = Infinity;
-
-    if (curveType === 'straight') {
-      dist = distToSegment(worldX, worldY, startX, startY, endX, endY);
-    } else if (curveType === 'step') {
-      const midX = (startX + endX) / 2;
-      const d1 = distToSegment(worldX, worldY, startX, startY, midX, startY);
-      const d2 = distToSegment(worldX, worldY, midX, startY, midX, endY);
-      const d3 = distToSegment(worldX, worldY, midX, endY, endX, endY);
-      dist = Math.min(d1, d2, d3);
+    if (path.curved) {
+      const start = points[0];
+      const end = points[points.length - 1];
+      const [c1, c2] = bezierControls(start, end);
+      dist = distToBezier(worldX, worldY, start.x, start.y, c1.x, c1.y, c2.x, c2.y, end.x, end.y);
     } else {
-      // Bezier
-      const cpDist = Math.abs(endX - startX) * 0.5;
-      dist = distToBezier(
-        worldX, worldY, 
-        startX, startY, 
-        startX + cpDist, startY, 
-        endX - cpDist, endY, 
-        endX, endY
-      );
+      for (let i = 1; i < points.length; i++) {
+        dist = Math.min(dist, distToSegment(worldX, worldY, points[i - 1].x, points[i - 1].y, points[i].x, points[i].y));
+      }
     }
 
-    if (dist < HIT_THRESHOLD) {
+    // Buses are drawn thicker, so they are easier to hit
+    const threshold = (wire.bitWidth ?? 1) > 1 ? HIT_THRESHOLD + 3 : HIT_THRESHOLD;
+    if (dist < threshold) {
       return wire.id;
     }
   }
@@ -115,22 +119,52 @@ export const checkWireHit = (
   return null;
 };
 
+/**
+ * Bend point of one of the given wires under a world position, if any.
+ */
+export const checkWaypointHit = (
+  worldX: number,
+  worldY: number,
+  wires: Wire[],
+  wireIds: string[]
+): { wireId: string; index: number } | null => {
+  const HIT_RADIUS = 6; // World units
+  for (const wire of wires) {
+    if (!wire.waypoints || !wireIds.includes(wire.id)) continue;
+    const index = wire.waypoints.findIndex(p => Math.hypot(p.x - worldX, p.y - worldY) <= HIT_RADIUS);
+    if (index >= 0) return { wireId: wire.id, index };
+  }
+  return null;
+};
+
 // --- Drawing Functions ---
 
+// Colour of an unknown (X) or floating (Z) signal, undefined for known values
+const signalColor = (value: SignalValue | undefined): string | undefined => {
+  if (value === 'X') return COLORS.wireUnknown;
+  if (value === 'Z') return COLORS.wireFloating;
+  return undefined;
+};
+
 const drawPin = (
   ctx: CanvasRenderingContext2D, 
   x: number, 
   y: number, 
   isInput: boolean, 
-  active: boolean,
-  isHovered: boolean
+  value: SignalValue,
+  isHovered: boolean,
+  isBus: boolean = false
 ) => {
   const r = 5;
   ctx.beginPath();
-  ctx.arc(x, y, r, 0, Math.PI * 2);
-  ctx.fillStyle = active 
-    ? (isInput ? COLORS.pinInput : COLORS.pinOutput) 
-    : COLORS.componentBody;
+  if (isBus) {
+    // Bus pins are square
+    ctx.rect(x - r, y - r, r * 2, r * 2);
+  } else {
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  }
+  ctx.fillStyle = signalColor(value)
+    ?? (isHigh(value) ? (isInput ? COLORS.pinInput : COLORS.pinOutput) : COLORS.componentBody);
   ctx.fill();
   ctx.lineWidth = 2;
   ctx.strokeStyle = isHovered ? '#ffffff' : (isInput ? COLORS.pinInput : COLORS.pinOutput);
@@ -155,6 +189,63 @@ const getOrLoadImage = (src: string): HTMLImageElement | null => {
   return null;
 };
 
+// Pin names come from the config, or from the nested switches / lamps of a subcircuit
+const getPinLabels = (node: CircuitNode): { inputs?: string[]; outputs?: string[] } => {
+  const config = COMPONENT_CONFIGS[node.type];
+  if (node.type === GateType.SUBCIRCUIT && node.internal) {
+    const labelOf = (id: string) => node.internal!.nodes.find(n => n.id === id)?.label ?? '';
+    return {
+      inputs: node.internal.inputNodeIds.map(labelOf),
+      outputs: node.internal.outputNodeIds.map(labelOf)
+    };
+  }
+  // Splitters / mergers number their single-bit pins
+  const bitLabels = Array.from({ length: getBitWidth(node) }, (_, i) => String(i));
+  if (node.type === GateType.SPLITTER) return { outputs: bitLabels };
+  if (node.type === GateType.MERGER) return { inputs: bitLabels };
+  return { inputs: config.inputLabels, outputs: config.outputLabels };
+};
+
+// Draws pin names inside the body, relative to the symbol origin
+const drawPinLabels = (ctx: CanvasRenderingContext2D, node: CircuitNode, symbolW: number) => {
+  const config = COMPONENT_CONFIGS[node.type];
+  const labels = getPinLabels(node);
+  const h = node.height;
+
+  ctx.save();
+  ctx.fillStyle = COLORS.textColor;
+  ctx.strokeStyle = COLORS.textColor;
+  ctx.lineWidth = 1.5;
+  ctx.font = '10px Inter';
+  ctx.textBaseline = 'middle';
+
+  const inputSpacing = h / (node.inputs.length + 1);
+  labels.inputs?.forEach((label, i) => {
+    const py = inputSpacing * (i + 1);
+    if (i === config.clockPin) {
+      // Edge-triggered clock input
+      ctx.beginPath();
+      ctx.moveTo(0, py - 6);
+      ctx.lineTo(9, py);
+      ctx.lineTo(0, py + 6);
+      ctx.stroke();
+      ctx.textAlign = 'left';
+      ctx.fillText(label, 12, py);
+    } else {
+      ctx.textAlign = 'left';
+      ctx.fillText(label, 4, py);
+    }
+  });
+
+  const outputSpacing = h / (getOutputCount(node) + 1);
+  labels.outputs?.forEach((label, i) => {
+    ctx.textAlign = 'right';
+    ctx.fillText(label, symbolW - 4, outputSpacing * (i + 1));
+  });
+
+  ctx.restore();
+};
+
 const drawIEEEGate = (ctx: CanvasRenderingContext2D, node: CircuitNode, selected: boolean) => {
   const { x, y } = node.position;
   const config = COMPONENT_CONFIGS[node.type];
@@ -182,9 +273,11 @@ const drawIEEEGate = (ctx: CanvasRenderingContext2D, node: CircuitNode, selected
         ctx.moveTo(0, py);
         ctx.lineTo(xOffset, py);
     }
-    // Output lead
-    if (config.outputCount > 0) {
-        const py = h / 2;
+    // Output leads
+    const outputCount = getOutputCount(node);
+    const pinSpacingOut = h / (outputCount + 1);
+    for (let i = 0; i < outputCount; i++) {
+        const py = pinSpacingOut * (i + 1);
         ctx.moveTo(xOffset + symbolW, py);
         ctx.lineTo(w, py);
     }
@@ -259,6 +352,12 @@ const drawIEEEGate = (ctx: CanvasRenderingContext2D, node: CircuitNode, selected
         ctx.moveTo(0, 0);
         ctx.quadraticCurveTo(symbolW / 4, h / 2, 0, h);
         break;
+      case GateType.TRI_STATE:
+        ctx.moveTo(0, 0);
+        ctx.lineTo(symbolW, h / 2);
+        ctx.lineTo(0, h);
+        ctx.lineTo(0, 0);
+        break;
       case GateType.NOT:
         ctx.moveTo(0, 0);
         ctx.lineTo(symbolW - 10, h / 2);
@@ -322,14 +421,48 @@ const drawIEEEGate = (ctx: CanvasRenderingContext2D, node: CircuitNode, selected
         ctx.stroke();
         ctx.shadowBlur = 0;
     }
+
+    // An unknown or floating input rings the lamp in the signal colour
+    const inputColor = signalColor(node.inputValues?.[0]);
+    if (inputColor) {
+        ctx.strokeStyle = inputColor;
+        ctx.lineWidth = 3;
+        ctx.stroke();
+    }
+
+    // Bus lamps also show the value they receive
+    if (getBitWidth(node) > 1) {
+        ctx.fillStyle = COLORS.textColor;
+        ctx.font = '10px JetBrains Mono';
+        ctx.textAlign = 'center';
+        ctx.fillText(formatBusValue(node.inputValues?.[0] ?? 0, getBitWidth(node)), symbolW/2, h + 12);
+    }
   }
   
+  // Pin names and clock-edge triangle (flip-flops / latches / subcircuits)
+  const hasPinLabels = !!(config.inputLabels || config.outputLabels) || 
+    [GateType.SUBCIRCUIT, GateType.SPLITTER, GateType.MERGER].includes(node.type);
+  if (hasPinLabels) {
+    drawPinLabels(ctx, node, symbolW);
+  }
+
   // Label (Standard gates usually skip text if image drawn)
   if (!imageDrawn && node.type !== GateType.INPUT_SWITCH && node.type !== GateType.OUTPUT_LAMP) {
+      // Subcircuits show their component name
+      const label = node.type === GateType.SUBCIRCUIT ? node.label : config.label;
+      ctx.fillStyle = COLORS.textColor;
+      ctx.font = hasPinLabels ? 'bold 9px Inter' : 'bold 12px Inter';
+      ctx.textAlign = 'center';
+      // Keep the name clear of the pin labels
+      ctx.fillText(label, symbolW / 2, hasPinLabels ? h - 6 : h / 2 + 4);
+  }
+
+  // Names given by the user (e.g. port names) are shown above the node
+  if (node.type !== GateType.SUBCIRCUIT && node.label !== config.label) {
       ctx.fillStyle = COLORS.textColor;
-      ctx.font = 'bold 12px Inter';
+      ctx.font = '10px JetBrains Mono';
       ctx.textAlign = 'center';
-      ctx.fillText(config.label, symbolW / 2, h / 2 + 4);
+      ctx.fillText(node.label, symbolW / 2, -6);
   }
 
   ctx.restore();
@@ -340,13 +473,25 @@ export const renderCircuit = (
   ctx: CanvasRenderingContext2D,
   nodes: CircuitNode[],
   wires: Wire[],
+  wireLayout: WireLayout,
   camera: Camera,
   interactionState: any,
   selectedNodeIds: string[],
   selectedWireIds: string[],
-  currentMousePos: { x: number, y: number }
+  currentMousePos: { x: number, y: number },
+  diagnostics?: CircuitDiagnostics,
+  testFailureNodeIds: string[] = []
 ) => {
   const { width, height } = canvas;
+
+  // Diagnostic lookups
+  const unstableWireIds = new Set(diagnostics?.unstableWireIds);
+  const unstableNodeIds = new Set(diagnostics?.unstableNodeIds);
+  const contentionWireIds = new Set(diagnostics?.contentionWireIds);
+  const loopNodeColors = new Map<string, string>();
+  diagnostics?.loops.forEach(loop => {
+    loop.nodeIds.forEach(id => loopNodeColors.set(id, loop.oscillating ? COLORS.unstable : COLORS.feedbackLoop));
+  });
   
   // Clear
   ctx.fillStyle = COLORS.background;
@@ -378,37 +523,20 @@ export const renderCircuit = (
 
   // Draw Wires
   wires.forEach(wire => {
-    const sourceNode = nodes.find(n => n.id === wire.sourceNodeId);
-    const targetNode = nodes.find(n => n.id === wire.targetNodeId);
-    if (!sourceNode || !targetNode) return;
+    const path = wireLayout.paths.get(wire.id);
+    if (!path) return;
 
-    const startX = sourceNode.position.x + sourceNode.width;
-    const startY = sourceNode.position.y + (sourceNode.height / 2); 
-    
-    // Dynamic input count
-    const inputCount = targetNode.inputs.length;
-    const pinSpacing = targetNode.height / (inputCount + 1);
-    const endX = targetNode.position.x;
-    const endY = targetNode.position.y + (pinSpacing * (wire.targetPinIndex + 1));
-
-    const s = worldToScreen(startX, startY, camera);
-    const e = worldToScreen(endX, endY, camera);
+    const points = path.points.map(p => worldToScreen(p.x, p.y, camera));
+    const s = points[0];
+    const e = points[points.length - 1];
 
     ctx.beginPath();
     ctx.moveTo(s.x, s.y);
-    
-    const curveType = wire.curveType || 'bezier';
-
-    if (curveType === 'straight') {
-      ctx.lineTo(e.x, e.y);
-    } else if (curveType === 'step') {
-      const midX = (s.x + e.x) / 2;
-      ctx.lineTo(midX, s.y);
-      ctx.lineTo(midX, e.y);
-      ctx.lineTo(e.x, e.y);
+    if (path.curved) {
+      const [c1, c2] = bezierControls(s, e);
+      ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, e.x, e.y);
     } else {
-      const cpDist = Math.abs(e.x - s.x) * 0.5;
-      ctx.bezierCurveTo(s.x + cpDist, s.y, e.x - cpDist, e.y, e.x, e.y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
     }
     
     const isSelected = selectedWireIds.includes(wire.id);
@@ -427,7 +555,31 @@ export const renderCircuit = (
       ctx.restore();
     }
 
-    if (wire.color) {
+    if (unstableWireIds.has(wire.id)) {
+      // Dashed halo marks a net that never settled
+      ctx.save();
+      ctx.lineWidth = 8 * camera.zoom;
+      ctx.strokeStyle = COLORS.unstable;
+      ctx.globalAlpha = 0.5;
+      ctx.setLineDash([8 * camera.zoom, 6 * camera.zoom]);
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    if (contentionWireIds.has(wire.id)) {
+      // Solid halo marks drivers fighting over the same input
+      ctx.save();
+      ctx.lineWidth = 10 * camera.zoom;
+      ctx.strokeStyle = COLORS.contention;
+      ctx.globalAlpha = 0.5;
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    const valueColor = signalColor(wire.value);
+    if (valueColor) {
+      ctx.strokeStyle = valueColor;
+    } else if (wire.color) {
       ctx.strokeStyle = wire.color;
       if (wire.state) {
         ctx.shadowColor = wire.color;
@@ -441,9 +593,51 @@ export const renderCircuit = (
       }
     }
 
-    ctx.lineWidth = 3 * camera.zoom;
+    const busWidth = wire.bitWidth ?? 1;
+    ctx.lineWidth = (busWidth > 1 ? 6 : 3) * camera.zoom;
     ctx.stroke();
     ctx.shadowBlur = 0;
+
+    // Bus value label at the middle of the wire
+    if (busWidth > 1) {
+      const text = formatBusValue(wire.value ?? 0, busWidth);
+      const middle = pointOnWire(path, 0.5);
+      const { x: mx, y: my } = worldToScreen(middle.x, middle.y, camera);
+      ctx.save();
+      ctx.font = `${Math.max(9, 11 * camera.zoom)}px JetBrains Mono`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      const textW = ctx.measureText(text).width + 8;
+      ctx.fillStyle = COLORS.background;
+      ctx.fillRect(mx - textW / 2, my - 8, textW, 16);
+      ctx.fillStyle = valueColor ?? (wire.state ? COLORS.wireActive : COLORS.textColor);
+      ctx.fillText(text, mx, my);
+      ctx.restore();
+    }
+  });
+
+  // Junction dots where branches leave their parent wire
+  wireLayout.junctions.forEach(({ wireId, position }) => {
+    const wire = wires.find(w => w.id === wireId)!;
+    const p = worldToScreen(position.x, position.y, camera);
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, ((wire.bitWidth ?? 1) > 1 ? 6 : 4.5) * camera.zoom, 0, Math.PI * 2);
+    ctx.fillStyle = signalColor(wire.value) ?? wire.color ?? (wire.state ? COLORS.wireActive : COLORS.wireInactive);
+    ctx.fill();
+  });
+
+  // Bend point handles of the selected wires
+  wires.forEach(wire => {
+    if (!wire.waypoints || !selectedWireIds.includes(wire.id)) return;
+    const size = 8;
+    wire.waypoints.forEach(point => {
+      const p = worldToScreen(point.x, point.y, camera);
+      ctx.fillStyle = COLORS.background;
+      ctx.strokeStyle = COLORS.componentBorderSelected;
+      ctx.lineWidth = 1.5;
+      ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+      ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+    });
   });
 
   // Active wire creation line
@@ -463,27 +657,45 @@ export const renderCircuit = (
     const isSelected = selectedNodeIds.includes(node.id);
     drawIEEEGate(ctx, node, isSelected);
 
+    // Diagnostic outline (feedback loop / oscillation)
+    const diagColor = unstableNodeIds.has(node.id) ? COLORS.unstable : loopNodeColors.get(node.id);
+    if (diagColor) {
+      ctx.save();
+      ctx.strokeStyle = diagColor;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(node.position.x - 6, node.position.y - 6, node.width + 12, node.height + 12);
+      ctx.restore();
+    }
+
+    // Failed test vector outline
+    if (testFailureNodeIds.includes(node.id)) {
+      ctx.save();
+      ctx.strokeStyle = COLORS.testFailure;
+      ctx.lineWidth = 3;
+      ctx.strokeRect(node.position.x - 9, node.position.y - 9, node.width + 18, node.height + 18);
+      ctx.restore();
+    }
+
     // Draw Pins
-    const config = COMPONENT_CONFIGS[node.type];
-    
     // Inputs - DYNAMIC
-    const inputCount = node.inputs.length;
-    const pinSpacingIn = node.height / (inputCount + 1);
-    for (let i = 0; i < inputCount; i++) {
-        const pinY = node.position.y + (pinSpacingIn * (i + 1));
+    for (let i = 0; i < node.inputs.length; i++) {
+        const pin = getInputPinPosition(node, i);
         const isHovered = interactionState.hoveredPin?.nodeId === node.id 
             && interactionState.hoveredPin?.type === 'input' 
             && interactionState.hoveredPin?.index === i;
             
-        drawPin(ctx, node.position.x, pinY, true, node.inputs[i], isHovered);
+        const value = node.inputValues?.[i] ?? (node.inputs[i] ? 1 : 0);
+        drawPin(ctx, pin.x, pin.y, true, value, isHovered, getInputPinWidth(node, i) > 1);
     }
 
     // Outputs
-    if (config.outputCount > 0) {
-        const pinY = node.position.y + (node.height / 2);
+    for (let i = 0; i < getOutputCount(node); i++) {
+        const pin = getOutputPinPosition(node, i);
         const isHovered = interactionState.hoveredPin?.nodeId === node.id 
-            && interactionState.hoveredPin?.type === 'output';
-        drawPin(ctx, node.position.x + node.width, pinY, false, node.state, isHovered);
+            && interactionState.hoveredPin?.type === 'output'
+            && interactionState.hoveredPin?.index === i;
+        drawPin(ctx, pin.x, pin.y, false, getOutputValue(node, i), isHovered, getOutputPinWidth(node, i) > 1);
     }
 
     ctx.restore();
@@ -0,0 +1,181 @@
+import { CircuitNode, GateType, ProjectData, SignalValue } from '../types';
+import { CircuitSimulation, resetSequentialState } from './circuitEngine';
+import { advanceClocks, applyClockLevels, countClockEdges, nextClockEdge } from './clocks';
+import { normalizeProject, readProject } from './projectFormat';
+import { refreshInstances } from './subcircuits';
+
+// Safety net for run(): a span with more clock edges than this is rejected instead of hanging
+const MAX_EDGES_PER_RUN = 1000000;
+
+/**
+ * Headless simulation of a saved project, independent of React and the DOM.
+ * Inputs are the project's switches and outputs its lamps, both addressed by label.
+ *
+ *   const sim = new Simulator(projectData);
+ *   sim.setInput('A', 1);
+ *   sim.step(2); // One full period of a 50 % clock
+ *   sim.getOutput('Q'); // 0, 1, a bus value, 'X' or 'Z'
+ *
+ * Time is in seconds of simulated time; clocks follow their frequency, duty cycle and phase.
+ * Unknown or ambiguous labels throw an Error.
+ */
+export class Simulator {
+  private simulation: CircuitSimulation;
+  private initial: ProjectData;
+  private currentTime = 0;
+
+  /**
+   * Takes project data the app produced (e.g. a parsed save file). Use Simulator.load for untrusted input.
+   */
+  constructor(data: ProjectData) {
+    this.initial = normalizeProject(data);
+    this.reset();
+  }
+
+  /**
+   * Validates raw data (parsed JSON or a JSON string) before simulating it.
+   */
+  static load(raw: unknown): { simulator?: Simulator; errors: string[] } {
+    let parsed = raw;
+    if (typeof raw === 'string') {
+      try {
+        parsed = JSON.parse(raw);
+      } catch {
+        return { errors: ['Not valid JSON.'] };
+      }
+    }
+    const { data, errors } = readProject(parsed);
+    if (!data) return { errors };
+    return { simulator: new Simulator(data), errors: [] };
+  }
+
+  /** Simulated time in seconds. */
+  get time(): number {
+    return this.currentTime;
+  }
+
+  /** False if the last propagation ran out of events (an oscillating circuit). */
+  get settled(): boolean {
+    return this.simulation.settled;
+  }
+
+  get unstableNodeIds(): string[] {
+    return this.simulation.result().unstableNodeIds;
+  }
+
+  /** Labels of the input switches, top to bottom. */
+  get inputs(): string[] {
+    return this.labelsOf(GateType.INPUT_SWITCH);
+  }
+
+  /** Labels of the output lamps, top to bottom. */
+  get outputs(): string[] {
+    return this.labelsOf(GateType.OUTPUT_LAMP);
+  }
+
+  get clocks(): string[] {
+    return this.labelsOf(GateType.CLOCK);
+  }
+
+  /**
+   * Back to the loaded project at time 0: switches as saved, clocks at their phase, memory cleared.
+   * Subcircuits are rebuilt from their definitions.
+   */
+  reset(): void {
+    const data = this.initial;
+    const nodes = refreshInstances(data.nodes, data.components || []);
+    this.currentTime = 0;
+    this.simulation = new CircuitSimulation(resetSequentialState(applyClockLevels(nodes, 0)), data.wires);
+    this.simulation.evaluateAll();
+    this.simulation.run();
+  }
+
+  /**
+   * Sets a switch and propagates the change. Any non-zero number or true is High.
+   */
+  setInput(label: string, value: boolean | number): void {
+    const target = this.find(GateType.INPUT_SWITCH, label);
+    this.simulation.setSourceState(target.id, typeof value === 'number' ? value !== 0 : value);
+    this.simulation.run();
+  }
+
+  /**
+   * Sets several switches at once, then propagates a single time.
+   */
+  setInputs(values: Record<string, boolean | number>): void {
+    const targets = Object.entries(values).map(([label, value]) => [
+      this.find(GateType.INPUT_SWITCH, label).id,
+      typeof value === 'number' ? value !== 0 : value
+    ] as const);
+    targets.forEach(([id, state]) => this.simulation.setSourceState(id, state));
+    this.simulation.run();
+  }
+
+  getInput(label: string): boolean {
+    return this.find(GateType.INPUT_SWITCH, label).state;
+  }
+
+  /**
+   * Value shown by a lamp: 0 / 1 (or the bus value), 'X' when unknown, 'Z' when floating.
+   */
+  getOutput(label: string): SignalValue {
+    const lamp = this.find(GateType.OUTPUT_LAMP, label);
+    return lamp.inputValues?.[0] ?? (lamp.inputs[0] ? 1 : 0);
+  }
+
+  /** Every output by label. */
+  getOutputs(): Record<string, SignalValue> {
+    return Object.fromEntries(this.outputs.map(label => [label, this.getOutput(label)]));
+  }
+
+  /** Current level of a clock. */
+  getClock(label: string): boolean {
+    return this.find(GateType.CLOCK, label).state;
+  }
+
+  /**
+   * Advances to the next clock edge `count` times (one edge is half a period of a 50 % clock).
+   * Returns the number of edges taken, less than `count` only if there is no clock.
+   */
+  step(count = 1): number {
+    const { edges, time } = advanceClocks(this.simulation, this.currentTime, null, count);
+    this.currentTime = time;
+    return edges;
+  }
+
+  /**
+   * Runs for a span of simulated time, stopping at every clock edge on the way.
+   * Throws without running if the span holds more than MAX_EDGES_PER_RUN clock edges.
+   */
+  run(seconds: number): void {
+    const target = this.currentTime + seconds;
+    const edges = countClockEdges(this.simulation.nodes, this.currentTime, target);
+    if (edges > MAX_EDGES_PER_RUN) {
+      throw new Error(`${edges} clock edges in ${seconds} s is more than ${MAX_EDGES_PER_RUN}; run shorter spans.`);
+    }
+    advanceClocks(this.simulation, this.currentTime, target, Infinity);
+    this.currentTime = target;
+  }
+
+  /**
+   * Time of the next clock edge, or null without clocks.
+   */
+  nextEdge(): number | null {
+    return nextClockEdge(this.simulation.nodes, this.currentTime);
+  }
+
+  private labelsOf(type: GateType): string[] {
+    return this.simulation.nodes
+      .filter(n => n.type === type)
+      .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x)
+      .map(n => n.label);
+  }
+
+  private find(type: GateType, label: string): CircuitNode {
+    const matches = this.simulation.nodes.filter(n => n.type === type && n.label === label);
+    const kind = type === GateType.OUTPUT_LAMP ? 'output' : type === GateType.CLOCK ? 'clock' : 'input';
+    if (matches.length === 0) throw new Error(`No ${kind} labelled "${label}".`);
+    if (matches.length > 1) throw new Error(`${matches.length} ${kind}s are labelled "${label}"; rename them to tell them apart.`);
+    return matches[0];
+  }
+}
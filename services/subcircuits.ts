@@ -0,0 +1,181 @@
+import { CircuitNode, Wire, GateType, ComponentDefinition, SubcircuitState, Position, ProjectData } from '../types';
+import { COMPONENT_CONFIGS, PIN_SPACING } from '../constants';
+import { relinkWireCopies } from './wireRouter';
+import { generateId } from './ids';
+
+/**
+ * Builds a component definition from a group of nodes.
+ * The group's unconnected INPUT_SWITCH / OUTPUT_LAMP nodes become the block's pins, ordered top
+ * to bottom; ones wired to nodes outside the group stay plain switches and lamps inside the block.
+ * Only wires internal to the group are kept; the nodes are moved so the group starts at the origin.
+ */
+export const createComponentDefinition = (
+  name: string,
+  nodes: CircuitNode[],
+  wires: Wire[],
+  nodeIds: string[]
+): ComponentDefinition => {
+  const members = new Set(nodeIds);
+  const groupNodes = nodes.filter(n => members.has(n.id));
+  const groupWires = wires.filter(w => members.has(w.sourceNodeId) && members.has(w.targetNodeId));
+  // Nodes with a wire across the group boundary
+  const connectedOutside = new Set(wires
+    .filter(w => members.has(w.sourceNodeId) !== members.has(w.targetNodeId))
+    .flatMap(w => [w.sourceNodeId, w.targetNodeId]));
+  const pinsOf = (type: GateType) => groupNodes.filter(n => n.type === type && !connectedOutside.has(n.id));
+
+  const minX = Math.min(...groupNodes.map(n => n.position.x));
+  const minY = Math.min(...groupNodes.map(n => n.position.y));
+
+  const byY = (a: CircuitNode, b: CircuitNode) => a.position.y - b.position.y;
+
+  return {
+    id: generateId(),
+    name,
+    nodes: groupNodes.map(n => ({
+      ...n,
+      position: { x: n.position.x - minX, y: n.position.y - minY }
+    })),
+    wires: relinkWireCopies(groupWires, new Map(groupWires.map(w => [w.id, w.id])), { x: -minX, y: -minY }),
+    inputNodeIds: pinsOf(GateType.INPUT_SWITCH).sort(byY).map(n => n.id),
+    outputNodeIds: pinsOf(GateType.OUTPUT_LAMP).sort(byY).map(n => n.id)
+  };
+};
+
+/**
+ * Re-derives the pins of a definition after its nodes were edited.
+ * Switches and lamps that were not pins before stay internal; new ones become pins.
+ */
+export const updateComponentDefinition = (
+  definition: ComponentDefinition,
+  nodes: CircuitNode[],
+  wires: Wire[]
+): ComponentDefinition => {
+  const byY = (a: CircuitNode, b: CircuitNode) => a.position.y - b.position.y;
+  const pins = new Set([...definition.inputNodeIds, ...definition.outputNodeIds]);
+  const internal = new Set(definition.nodes.filter(n => !pins.has(n.id)).map(n => n.id));
+  const pinsOf = (type: GateType) => nodes.filter(n => n.type === type && !internal.has(n.id));
+  return {
+    ...definition,
+    nodes,
+    wires,
+    inputNodeIds: pinsOf(GateType.INPUT_SWITCH).sort(byY).map(n => n.id),
+    outputNodeIds: pinsOf(GateType.OUTPUT_LAMP).sort(byY).map(n => n.id)
+  };
+};
+
+/**
+ * Copies a definition into fresh instance state.
+ * Nested subcircuits are rebuilt from the current definitions so edits reach every level.
+ */
+export const instantiateDefinition = (
+  definition: ComponentDefinition,
+  definitions: ComponentDefinition[]
+): SubcircuitState => {
+  return {
+    nodes: refreshInstances(definition.nodes, definitions).map(n => ({
+      ...n,
+      inputs: [...n.inputs],
+      outputs: [...n.outputs]
+    })),
+    wires: definition.wires.map(w => ({ ...w })),
+    inputNodeIds: [...definition.inputNodeIds],
+    outputNodeIds: [...definition.outputNodeIds]
+  };
+};
+
+const getInstanceHeight = (definition: ComponentDefinition) => {
+  const pinCount = Math.max(definition.inputNodeIds.length, definition.outputNodeIds.length, 1);
+  return (pinCount + 1) * PIN_SPACING;
+};
+
+/**
+ * Creates a placeable SUBCIRCUIT node for a definition.
+ */
+export const createSubcircuitNode = (
+  definition: ComponentDefinition,
+  definitions: ComponentDefinition[],
+  position: Position
+): CircuitNode => {
+  return {
+    id: generateId(),
+    type: GateType.SUBCIRCUIT,
+    position,
+    width: COMPONENT_CONFIGS[GateType.SUBCIRCUIT].width,
+    height: getInstanceHeight(definition),
+    inputs: new Array(definition.inputNodeIds.length).fill(false),
+    outputs: new Array(definition.outputNodeIds.length).fill(false),
+    state: false,
+    label: definition.name,
+    componentId: definition.id,
+    internal: instantiateDefinition(definition, definitions)
+  };
+};
+
+/**
+ * Rebuilds every SUBCIRCUIT node from its (possibly edited) definition, resizing its pins.
+ * Nodes whose definition no longer exists are left untouched.
+ */
+export const refreshInstances = (nodes: CircuitNode[], definitions: ComponentDefinition[]): CircuitNode[] => {
+  return nodes.map(node => {
+    if (node.type !== GateType.SUBCIRCUIT) return node;
+    const definition = definitions.find(d => d.id === node.componentId);
+    if (!definition) return node;
+
+    const resize = (values: boolean[], length: number) =>
+      Array.from({ length }, (_, i) => values[i] ?? false);
+
+    return {
+      ...node,
+      label: definition.name,
+      height: getInstanceHeight(definition),
+      inputs: resize(node.inputs, definition.inputNodeIds.length),
+      outputs: resize(node.outputs, definition.outputNodeIds.length),
+      internal: instantiateDefinition(definition, definitions)
+    };
+  });
+};
+
+/**
+ * Rebuilds the SUBCIRCUIT instances of loaded project data, at the top level and inside the
+ * definitions, so nested state saved with the file is never simulated as it is.
+ */
+export const refreshProjectInstances = (data: ProjectData): ProjectData => {
+  const components = data.components || [];
+  return {
+    ...data,
+    nodes: refreshInstances(data.nodes, components),
+    components: components.map(d => ({ ...d, nodes: refreshInstances(d.nodes, components) }))
+  };
+};
+
+/**
+ * Drops wires attached to pins that no longer exist (after a definition lost pins).
+ */
+export const pruneDanglingWires = (nodes: CircuitNode[], wires: Wire[]): Wire[] => {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  return wires.filter(w => {
+    const source = nodeMap.get(w.sourceNodeId);
+    const target = nodeMap.get(w.targetNodeId);
+    if (!source || !target) return false;
+    return w.sourcePinIndex < source.outputs.length && w.targetPinIndex < target.inputs.length;
+  });
+};
+
+/**
+ * True if `definitionId` uses `otherId`, directly or through nested components.
+ * Used to keep a component from being placed inside itself.
+ */
+export const componentDependsOn = (
+  definitions: ComponentDefinition[],
+  definitionId: string,
+  otherId: string
+): boolean => {
+  if (definitionId === otherId) return true;
+  const definition = definitions.find(d => d.id === definitionId);
+  if (!definition) return false;
+  return definition.nodes.some(n =>
+    n.type === GateType.SUBCIRCUIT && n.componentId !== undefined &&
+    componentDependsOn(definitions, n.componentId, otherId)
+  );
+};
@@ -0,0 +1,134 @@
+import { ProjectData, SignalValue, TestVector, GateType } from '../types';
+import { Simulator } from './simulator';
+
+// Column giving the clock edges to run after a row's inputs are applied
+const STEPS_COLUMN = 'steps';
+
+export interface TestMismatch {
+  label: string;
+  expected: SignalValue;
+  actual: SignalValue;
+}
+
+export interface TestResult {
+  passed: boolean;
+  mismatches: TestMismatch[];
+  error?: string; // The row could not run (e.g. a label that no longer exists)
+}
+
+export interface TestReport {
+  results: TestResult[];
+  passedCount: number;
+}
+
+/**
+ * Labels a vector file can refer to: the top-level switches and lamps of a project.
+ */
+export const getTestLabels = (data: ProjectData): { inputs: string[]; outputs: string[] } => ({
+  inputs: data.nodes.filter(n => n.type === GateType.INPUT_SWITCH).map(n => n.label),
+  outputs: data.nodes.filter(n => n.type === GateType.OUTPUT_LAMP).map(n => n.label)
+});
+
+// 0 / 1, decimal, 0x.. hex, 0b.. binary, X or Z; blank and '-' mean "not given"
+const parseCell = (cell: string): SignalValue | undefined | null => {
+  const text = cell.trim().replace(/^"(.*)"$/, '$1');
+  if (text === '' || text === '-') return undefined;
+  if (/^[xX]$/.test(text)) return 'X';
+  if (/^[zZ]$/.test(text)) return 'Z';
+  if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0b[01]+$/i.test(text)) return parseInt(text.slice(2), 2);
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  return null;
+};
+
+/**
+ * Reads test vectors from CSV. The header names the columns after the circuit's switches and lamps
+ * (in any order) plus an optional "steps" column; '#' lines are comments.
+ *
+ *   A,B,steps,Q
+ *   0,1,0,1
+ *   1,1,2,0x3
+ *
+ * Separators may be commas, semicolons or tabs. Blank / '-' cells leave a switch as it is
+ * or skip checking a lamp.
+ */
+export const parseTestVectorCsv = (
+  text: string,
+  inputLabels: string[],
+  outputLabels: string[]
+): { vectors?: TestVector[]; error?: string } => {
+  const lines = text.split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line !== '' && !line.startsWith('#'));
+  if (lines.length === 0) return { error: 'The file has no header row.' };
+
+  const header = lines[0];
+  const separator = [',', ';', '\t'].find(s => header.line.includes(s)) ?? ',';
+  const columns = header.line.split(separator).map(c => c.trim().replace(/^"(.*)"$/, '$1'));
+
+  const inputs = new Set(inputLabels);
+  const outputs = new Set(outputLabels);
+  const kinds: ('input' | 'output' | 'steps')[] = [];
+  for (const [i, column] of columns.entries()) {
+    if (columns.indexOf(column) !== i) return { error: `Line ${header.number}: column "${column}" appears twice.` };
+    if (inputs.has(column)) kinds.push('input');
+    else if (outputs.has(column)) kinds.push('output');
+    else if (column.toLowerCase() === STEPS_COLUMN) kinds.push('steps');
+    else return { error: `Line ${header.number}: "${column}" is not an input or output of the circuit.` };
+  }
+  if (!kinds.includes('output')) return { error: `Line ${header.number}: no output column to check.` };
+
+  const vectors: TestVector[] = [];
+  for (const { line, number } of lines.slice(1)) {
+    const cells = line.split(separator);
+    if (cells.length !== columns.length) {
+      return { error: `Line ${number}: expected ${columns.length} values, found ${cells.length}.` };
+    }
+
+    const vector: TestVector = { inputs: {}, expected: {} };
+    for (const [i, cell] of cells.entries()) {
+      const value = parseCell(cell);
+      if (value === null) return { error: `Line ${number}, column "${columns[i]}": cannot read "${cell.trim()}".` };
+      if (value === undefined) continue;
+
+      if (kinds[i] === 'output') {
+        vector.expected[columns[i]] = value;
+      } else if (kinds[i] === 'input') {
+        if (value !== 0 && value !== 1) return { error: `Line ${number}, column "${columns[i]}": inputs must be 0 or 1.` };
+        vector.inputs[columns[i]] = value;
+      } else {
+        if (typeof value !== 'number') return { error: `Line ${number}: steps must be a whole number.` };
+        vector.steps = value;
+      }
+    }
+    vectors.push(vector);
+  }
+
+  if (vectors.length === 0) return { error: 'The file has no test rows.' };
+  return { vectors };
+};
+
+/**
+ * Runs vectors in order on a fresh simulation of the project. State carries from row to row,
+ * so sequential circuits can be tested with "steps" rows.
+ */
+export const runTestVectors = (data: ProjectData, vectors: TestVector[]): TestReport => {
+  const simulator = new Simulator(data);
+  const results = vectors.map((vector): TestResult => {
+    try {
+      simulator.setInputs(vector.inputs);
+      if (vector.steps) simulator.step(vector.steps);
+
+      const mismatches: TestMismatch[] = [];
+      Object.entries(vector.expected).forEach(([label, expected]) => {
+        const actual = simulator.getOutput(label);
+        if (actual !== expected) mismatches.push({ label, expected, actual });
+      });
+      return { passed: mismatches.length === 0, mismatches };
+    } catch (err) {
+      return { passed: false, mismatches: [], error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  return { results, passedCount: results.filter(r => r.passed).length };
+};
@@ -0,0 +1,320 @@
+import { CircuitNode, Wire, GateType, ComponentDefinition } from '../types';
+import { COMPONENT_CONFIGS } from '../constants';
+import { getBitWidth, getInputPinWidth, getOutputPinWidth } from './buses';
+
+const VERILOG_KEYWORDS = new Set([
+  'always', 'and', 'assign', 'begin', 'buf', 'bufif0', 'bufif1', 'case', 'default', 'else', 'end',
+  'endcase', 'endmodule', 'for', 'if', 'initial', 'inout', 'input', 'integer', 'module', 'nand',
+  'negedge', 'nor', 'not', 'notif0', 'notif1', 'or', 'output', 'parameter', 'posedge', 'reg',
+  'tri', 'wire', 'xnor', 'xor'
+]);
+
+// Primitive for single-bit gates, operator for bus-wide assigns
+const GATE_PRIMITIVES: Partial<Record<GateType, { primitive: string; operator: string; inverted: boolean }>> = {
+  [GateType.AND]: { primitive: 'and', operator: '&', inverted: false },
+  [GateType.OR]: { primitive: 'or', operator: '|', inverted: false },
+  [GateType.NAND]: { primitive: 'nand', operator: '&', inverted: true },
+  [GateType.NOR]: { primitive: 'nor', operator: '|', inverted: true },
+  [GateType.XOR]: { primitive: 'xor', operator: '^', inverted: false }
+};
+
+/**
+ * Hands out legal, unique Verilog identifiers.
+ */
+const createNamer = () => {
+  const used = new Set<string>();
+  return (raw: string): string => {
+    let base = raw.replace(/[^A-Za-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '') || 'n';
+    if (/^[0-9]/.test(base)) base = `_${base}`;
+    if (VERILOG_KEYWORDS.has(base.toLowerCase())) base = `${base}_`;
+    let name = base;
+    for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base}_${i}`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+const range = (width: number) => (width > 1 ? `[${width - 1}:0] ` : '');
+
+const floating = (width: number) => `${width}'bz`;
+const isFloating = (expression: string) => expression.endsWith("'bz");
+
+// Top to bottom, then left to right; the id only breaks exact ties
+const byPosition = (a: CircuitNode, b: CircuitNode) =>
+  a.position.y - b.position.y || a.position.x - b.position.x || a.id.localeCompare(b.id);
+
+// Left to right (signal flow), then top to bottom
+const byColumn = (a: CircuitNode, b: CircuitNode) =>
+  a.position.x - b.position.x || a.position.y - b.position.y || a.id.localeCompare(b.id);
+
+interface ModuleSource {
+  name: string;
+  inputPorts: string[];
+  outputPorts: string[];
+  text: string;
+}
+
+interface ExportContext {
+  definitions: ComponentDefinition[];
+  modules: Map<string, ModuleSource>; // Definition id -> exported module
+  moduleNamer: (raw: string) => string;
+}
+
+/**
+ * Exports one circuit level as a module. `inputIds` / `outputIds` fix the port order;
+ * any other switches and lamps become ports after them, ordered by position.
+ */
+const exportModule = (
+  name: string,
+  nodes: CircuitNode[],
+  wires: Wire[],
+  inputIds: string[],
+  outputIds: string[],
+  context: ExportContext
+): ModuleSource => {
+  const namer = createNamer();
+  namer(name); // A port can't share the module's name
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const ordered = (type: GateType, pinned: string[]) => [
+    ...pinned.map(id => nodeMap.get(id)!).filter(Boolean),
+    ...nodes.filter(n => n.type === type && !pinned.includes(n.id)).sort(byPosition)
+  ];
+
+  const switches = ordered(GateType.INPUT_SWITCH, inputIds);
+  const clocks = nodes.filter(n => n.type === GateType.CLOCK).sort(byPosition);
+  const lamps = ordered(GateType.OUTPUT_LAMP, outputIds);
+
+  const portLines: string[] = [];
+  const declarations: string[] = [];
+  const body: string[] = [];
+  const outputNets = new Map<string, string>(); // "id:pin" -> net name
+  const inputPorts: string[] = [];
+  const outputPorts: string[] = [];
+
+  // Ports: switches and clocks drive their own port net
+  switches.forEach(n => {
+    const port = namer(n.label);
+    inputPorts.push(port);
+    portLines.push(`input ${port}`);
+    outputNets.set(`${n.id}:0`, port);
+  });
+  clocks.forEach(n => {
+    const port = namer(n.label);
+    inputPorts.push(port);
+    portLines.push(`input ${port}`);
+    outputNets.set(`${n.id}:0`, port);
+  });
+  lamps.forEach(n => {
+    const port = namer(n.label);
+    outputPorts.push(port);
+    portLines.push(`output ${range(getBitWidth(n))}${port}`);
+  });
+
+  // Every other output pin gets a named net
+  const logicNodes = nodes.filter(n => ![GateType.INPUT_SWITCH, GateType.CLOCK, GateType.OUTPUT_LAMP].includes(n.type)).sort(byColumn);
+  const instanceNames = new Map<string, string>();
+  const instanceCounts = new Map<string, number>(); // Numbers instances per label (and_0, and_1, ...)
+  logicNodes.forEach(n => {
+    const base = n.label.toLowerCase();
+    const count = instanceCounts.get(base) ?? 0;
+    instanceCounts.set(base, count + 1);
+    const instance = namer(`${base}_${count}`);
+    instanceNames.set(n.id, instance);
+    const labels = COMPONENT_CONFIGS[n.type].outputLabels;
+    n.outputs.forEach((_, pin) => {
+      let suffix = n.outputs.length === 1 ? 'y' : `y${pin}`;
+      if (labels) suffix = pin === 0 ? 'q' : 'qn';
+      if (n.type === GateType.SPLITTER) suffix = `b${pin}`;
+      if (n.type === GateType.SUBCIRCUIT && n.internal) {
+        const lamp = n.internal.nodes.find(inner => inner.id === n.internal!.outputNodeIds[pin]);
+        if (lamp) suffix = lamp.label.toLowerCase();
+      }
+      const net = namer(`${instance}_${suffix}`);
+      outputNets.set(`${n.id}:${pin}`, net);
+      // Flip-flop / latch Q is assigned from an always block
+      const kind = labels && pin === 0 ? 'reg' : 'wire';
+      declarations.push(`${kind} ${range(getOutputPinWidth(n, pin))}${net};`);
+    });
+  });
+
+  // Input connections; several drivers on one pin share a resolved net (wired bus)
+  const driversOf = (node: CircuitNode, pin: number): string => {
+    const incoming = wires
+      .filter(w => w.targetNodeId === node.id && w.targetPinIndex === pin && outputNets.has(`${w.sourceNodeId}:${w.sourcePinIndex}`))
+      .map(w => outputNets.get(`${w.sourceNodeId}:${w.sourcePinIndex}`)!)
+      .sort();
+    const width = getInputPinWidth(node, pin);
+    if (incoming.length === 0) return floating(width);
+    if (incoming.length === 1) return incoming[0];
+
+    const owner = instanceNames.get(node.id) ?? outputPortOf(node);
+    const net = namer(`${owner}_in${pin}`);
+    declarations.push(`wire ${range(width)}${net};`);
+    incoming.forEach(driver => body.push(`assign ${net} = ${driver};`));
+    return net;
+  };
+  const outputPortOf = (node: CircuitNode) => outputPorts[lamps.indexOf(node)];
+
+  logicNodes.forEach(n => {
+    const instance = instanceNames.get(n.id)!;
+    const ins = n.inputs.map((_, pin) => driversOf(n, pin));
+    const out = (pin: number) => outputNets.get(`${n.id}:${pin}`)!;
+    const bus = getBitWidth(n) > 1;
+    const gate = GATE_PRIMITIVES[n.type];
+
+    if (gate) {
+      if (!bus) {
+        body.push(`${gate.primitive} ${instance} (${[out(0), ...ins].join(', ')});`);
+      } else {
+        const expression = ins.join(` ${gate.operator} `);
+        body.push(`assign ${out(0)} = ${gate.inverted ? `~(${expression})` : expression};`);
+      }
+      return;
+    }
+
+    switch (n.type) {
+      case GateType.NOT:
+        body.push(bus ? `assign ${out(0)} = ~${ins[0]};` : `not ${instance} (${out(0)}, ${ins[0]});`);
+        break;
+      case GateType.TRI_STATE:
+        body.push(bus
+          ? `assign ${out(0)} = ${ins[1]} ? ${ins[0]} : ${floating(getBitWidth(n))};`
+          : `bufif1 ${instance} (${out(0)}, ${ins[0]}, ${ins[1]});`);
+        break;
+      case GateType.SPLITTER:
+        n.outputs.forEach((_, bit) =>
+          body.push(`assign ${out(bit)} = ${isFloating(ins[0]) ? floating(1) : `${ins[0]}[${bit}]`};`));
+        break;
+      case GateType.MERGER:
+        body.push(`assign ${out(0)} = {${[...ins].reverse().join(', ')}};`);
+        break;
+      case GateType.SUBCIRCUIT: {
+        const module = exportDefinition(n.componentId, context);
+        if (!module) {
+          body.push(`// ${instance}: component definition missing`);
+          break;
+        }
+        const connections = [
+          ...module.inputPorts.map((port, pin) => `.${port}(${ins[pin] ?? floating(1)})`),
+          ...module.outputPorts.map((port, pin) => `.${port}(${out(pin)})`)
+        ];
+        body.push(`${module.name} ${instance} (${connections.join(', ')});`);
+        break;
+      }
+      default:
+        body.push(...exportSequential(n, ins, out(0)));
+        body.push(`assign ${out(1)} = ~${out(0)};`);
+    }
+  });
+
+  lamps.forEach((n, i) => body.push(`assign ${outputPorts[i]} = ${driversOf(n, 0)};`));
+
+  const lines = [
+    `module ${name} (`,
+    portLines.map(p => `  ${p}`).join(',\n'),
+    ');',
+    ''
+  ];
+  if (declarations.length > 0) lines.push(...declarations.map(d => `  ${d}`), '');
+  lines.push(...body.map(b => `  ${b}`), '', 'endmodule');
+
+  return { name, inputPorts, outputPorts, text: lines.join('\n') };
+};
+
+/**
+ * Behavioural block for a flip-flop or latch, matching computeSequentialLogic.
+ * Unconnected PRE / CLR are left out of the sensitivity list.
+ */
+const exportSequential = (node: CircuitNode, ins: string[], q: string): string[] => {
+  const config = COMPONENT_CONFIGS[node.type];
+  const labels = config.inputLabels || [];
+  const pin = (label: string) => ins[labels.indexOf(label)];
+  const connected = (expr: string | undefined) => expr !== undefined && !isFloating(expr);
+
+  let next: string;
+  switch (node.type) {
+    case GateType.D_FLIP_FLOP:
+      next = `${q} <= ${pin('D')};`;
+      break;
+    case GateType.JK_FLIP_FLOP:
+      next = `${q} <= (${pin('J')} & ~${q}) | (~${pin('K')} & ${q});`;
+      break;
+    case GateType.T_FLIP_FLOP:
+      next = `${q} <= ${q} ^ ${pin('T')};`;
+      break;
+    case GateType.SR_FLIP_FLOP:
+      next = `if (${pin('S')} != ${pin('R')}) ${q} <= ${pin('S')};`;
+      break;
+    case GateType.D_LATCH:
+      return [`always @* if (${pin('EN')}) ${q} = ${pin('D')};`];
+    case GateType.SR_LATCH:
+      return [`always @* if (${pin('EN')} && ${pin('S')} != ${pin('R')}) ${q} = ${pin('S')};`];
+    default:
+      return [`// ${node.type} is not supported`];
+  }
+
+  const clk = ins[config.clockPin!];
+  if (!connected(clk)) return [`// ${q}: clock not connected`];
+
+  const sensitivity = [`posedge ${clk}`];
+  const branches: string[] = [];
+  if (connected(pin('CLR'))) {
+    sensitivity.push(`posedge ${pin('CLR')}`);
+    branches.push(`if (${pin('CLR')}) ${q} <= 1'b0;`);
+  }
+  if (connected(pin('PRE'))) {
+    sensitivity.push(`posedge ${pin('PRE')}`);
+    branches.push(`${branches.length > 0 ? 'else ' : ''}if (${pin('PRE')}) ${q} <= 1'b1;`);
+  }
+  branches.push(branches.length > 0 ? `else ${next.startsWith('if') ? `begin ${next} end` : next}` : next);
+
+  return [
+    `always @(${sensitivity.join(' or ')}) begin`,
+    ...branches.map(b => `  ${b}`),
+    'end'
+  ];
+};
+
+// Each definition becomes one module, exported once however often it is used
+const exportDefinition = (definitionId: string | undefined, context: ExportContext): ModuleSource | undefined => {
+  const definition = context.definitions.find(d => d.id === definitionId);
+  if (!definition) return undefined;
+  const existing = context.modules.get(definition.id);
+  if (existing) return existing;
+
+  const module = exportModule(
+    context.moduleNamer(definition.name),
+    definition.nodes,
+    definition.wires,
+    definition.inputNodeIds,
+    definition.outputNodeIds,
+    context
+  );
+  context.modules.set(definition.id, module);
+  return module;
+};
+
+/**
+ * Exports a circuit as a structural Verilog netlist.
+ * Switches and clocks become input ports, lamps output ports (named by their labels),
+ * gates become primitives or assigns and each driven pin a named net.
+ * The text only depends on the circuit (positions order ports and instances), so it diffs cleanly.
+ */
+export const exportVerilog = (
+  nodes: CircuitNode[],
+  wires: Wire[],
+  definitions: ComponentDefinition[],
+  moduleName: string = 'circuit'
+): string => {
+  const moduleNamer = createNamer();
+  const context: ExportContext = { definitions, modules: new Map(), moduleNamer };
+  const top = exportModule(moduleNamer(moduleName), nodes, wires, [], [], context);
+
+  return [
+    '// Generated by LogicGateSim',
+    '',
+    top.text,
+    ...Array.from(context.modules.values()).flatMap(m => ['', m.text]),
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,206 @@
+import { SignalValue } from '../types';
+import { COLORS } from '../constants';
+import { WaveformCapture, WaveformSample } from './waveforms';
+import { formatBusValue } from './buses';
+
+export const WAVE_RULER_HEIGHT = 20;
+export const WAVE_ROW_HEIGHT = 32;
+
+export const CURSOR_COLORS = { a: '#fbbf24', b: '#22d3ee' };
+
+export interface WaveformView {
+  firstStep: number; // Step at the left edge
+  pxPerStep: number;
+  cursorA: number | null;
+  cursorB: number | null;
+}
+
+// Tick spacing from 1, 2, 5, 10, 20, 50... steps, at least 50px apart
+const tickInterval = (pxPerStep: number): number => {
+  for (let magnitude = 1; ; magnitude *= 10) {
+    for (const k of [1, 2, 5]) {
+      if (k * magnitude * pxPerStep >= 50) return k * magnitude;
+    }
+  }
+};
+
+const drawBitTrace = (
+  ctx: CanvasRenderingContext2D,
+  segments: { x0: number; x1: number; value: SignalValue }[],
+  top: number,
+  bottom: number
+) => {
+  const mid = (top + bottom) / 2;
+  let prevY: number | null = null;
+
+  segments.forEach(({ x0, x1, value }) => {
+    if (value === 'X') {
+      ctx.fillStyle = `${COLORS.wireUnknown}40`;
+      ctx.fillRect(x0, top, x1 - x0, bottom - top);
+      ctx.strokeStyle = COLORS.wireUnknown;
+      ctx.beginPath();
+      ctx.moveTo(x0, top);
+      ctx.lineTo(x1, top);
+      ctx.moveTo(x0, bottom);
+      ctx.lineTo(x1, bottom);
+      ctx.moveTo(x0, top);
+      ctx.lineTo(x0, bottom);
+      ctx.stroke();
+      prevY = null;
+      return;
+    }
+
+    const y = value === 'Z' ? mid : value ? top : bottom;
+    ctx.strokeStyle = value === 'Z' ? COLORS.wireFloating : COLORS.wireActive;
+    if (value === 1) {
+      ctx.fillStyle = `${COLORS.wireActive}1a`;
+      ctx.fillRect(x0, top, x1 - x0, bottom - top);
+    }
+    ctx.beginPath();
+    ctx.moveTo(x0, prevY ?? y);
+    ctx.lineTo(x0, y);
+    ctx.lineTo(x1, y);
+    ctx.stroke();
+    prevY = y;
+  });
+};
+
+const drawBusTrace = (
+  ctx: CanvasRenderingContext2D,
+  segments: { x0: number; x1: number; value: SignalValue }[],
+  top: number,
+  bottom: number,
+  width: number
+) => {
+  const mid = (top + bottom) / 2;
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  segments.forEach(({ x0, x1, value }) => {
+    const color = value === 'X' ? COLORS.wireUnknown : value === 'Z' ? COLORS.wireFloating : COLORS.wireActive;
+    ctx.strokeStyle = color;
+    if (value === 'Z') {
+      ctx.beginPath();
+      ctx.moveTo(x0, mid);
+      ctx.lineTo(x1, mid);
+      ctx.stroke();
+      return;
+    }
+
+    // Hexagon: the slanted ends mark a value change
+    const slant = Math.min(3, (x1 - x0) / 2);
+    ctx.beginPath();
+    ctx.moveTo(x0, mid);
+    ctx.lineTo(x0 + slant, top);
+    ctx.lineTo(x1 - slant, top);
+    ctx.lineTo(x1, mid);
+    ctx.lineTo(x1 - slant, bottom);
+    ctx.lineTo(x0 + slant, bottom);
+    ctx.closePath();
+    if (value === 'X') {
+      ctx.fillStyle = `${COLORS.wireUnknown}40`;
+      ctx.fill();
+    }
+    ctx.stroke();
+
+    const text = formatBusValue(value, width);
+    const left = Math.max(x0, 0);
+    if (ctx.measureText(text).width + 8 < x1 - left) {
+      ctx.fillStyle = COLORS.textColor;
+      ctx.fillText(text, (left + x1) / 2, mid + 1);
+    }
+  });
+};
+
+// Segments of a trace that fall inside [from, to), clipped to the view
+const visibleSegments = (
+  samples: WaveformSample[],
+  endStep: number,
+  from: number,
+  to: number,
+  xOf: (step: number) => number
+): { x0: number; x1: number; value: SignalValue }[] => {
+  const segments: { x0: number; x1: number; value: SignalValue }[] = [];
+  samples.forEach((sample, i) => {
+    const start = sample.step;
+    const end = i + 1 < samples.length ? samples[i + 1].step : endStep;
+    if (end <= from || start >= to) return;
+    segments.push({ x0: xOf(Math.max(start, from)), x1: xOf(Math.min(end, to)), value: sample.value });
+  });
+  return segments;
+};
+
+/**
+ * Draws the probes of a capture as digital waveforms: a step ruler on top, then one row per probe.
+ * Single bits show as High / Low lines, buses as labelled hexagons; X is red and Z blue.
+ */
+export const renderWaveforms = (
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  capture: WaveformCapture,
+  view: WaveformView
+) => {
+  const { firstStep, pxPerStep } = view;
+  const xOf = (step: number) => (step - firstStep) * pxPerStep;
+  const lastStep = firstStep + Math.ceil(canvas.width / pxPerStep);
+  const endStep = capture.step + 1; // The current step is drawn one step wide
+
+  ctx.fillStyle = '#09090b';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Ruler and grid
+  const interval = tickInterval(pxPerStep);
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 1;
+  for (let step = Math.ceil(firstStep / interval) * interval; step <= lastStep; step += interval) {
+    const x = Math.round(xOf(step)) + 0.5;
+    ctx.strokeStyle = '#27272a';
+    ctx.beginPath();
+    ctx.moveTo(x, WAVE_RULER_HEIGHT - 6);
+    ctx.lineTo(x, canvas.height);
+    ctx.stroke();
+    ctx.fillStyle = '#71717a';
+    ctx.fillText(String(step), x + 3, WAVE_RULER_HEIGHT / 2 - 2);
+  }
+  ctx.strokeStyle = '#3f3f46';
+  ctx.beginPath();
+  ctx.moveTo(0, WAVE_RULER_HEIGHT + 0.5);
+  ctx.lineTo(canvas.width, WAVE_RULER_HEIGHT + 0.5);
+  ctx.stroke();
+
+  // Traces
+  ctx.lineWidth = 1.5;
+  capture.probes.forEach((probe, row) => {
+    const top = WAVE_RULER_HEIGHT + row * WAVE_ROW_HEIGHT + 7;
+    const bottom = top + WAVE_ROW_HEIGHT - 14;
+    const segments = visibleSegments(capture.traces[probe.id] || [], endStep, firstStep, lastStep, xOf);
+    if (probe.bitWidth > 1) drawBusTrace(ctx, segments, top, bottom, probe.bitWidth);
+    else drawBitTrace(ctx, segments, top, bottom);
+
+    ctx.strokeStyle = '#18181b';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, top + WAVE_ROW_HEIGHT - 6.5);
+    ctx.lineTo(canvas.width, top + WAVE_ROW_HEIGHT - 6.5);
+    ctx.stroke();
+    ctx.lineWidth = 1.5;
+  });
+
+  // Cursors
+  ctx.lineWidth = 1;
+  ctx.setLineDash([4, 3]);
+  (['a', 'b'] as const).forEach(key => {
+    const step = key === 'a' ? view.cursorA : view.cursorB;
+    if (step === null) return;
+    const x = Math.round(xOf(step)) + 0.5;
+    ctx.strokeStyle = CURSOR_COLORS[key];
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, canvas.height);
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+};
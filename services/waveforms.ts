@@ -0,0 +1,176 @@
+import { CircuitNode, Wire, SignalValue } from '../types';
+import { CircuitSimulation, getOutputValue } from './circuitEngine';
+import { getBitWidth, getOutputPinWidth } from './buses';
+import { generateId } from './ids';
+
+// Steps kept per capture; older samples scroll out of the history
+export const MAX_WAVEFORM_STEPS = 5000;
+
+export interface Probe {
+  id: string;
+  kind: 'node' | 'wire';
+  targetId: string;
+  label: string;
+  bitWidth: number;
+}
+
+// A value holds from its step until the next sample of the trace
+export interface WaveformSample {
+  step: number;
+  value: SignalValue;
+}
+
+export interface WaveformCapture {
+  probes: Probe[];
+  traces: Record<string, WaveformSample[]>; // Samples per probe id, only where the value changed
+  startStep: number; // Oldest step still in the history
+  step: number; // Current simulation step
+}
+
+export const createCapture = (): WaveformCapture => ({ probes: [], traces: {}, startStep: 0, step: 0 });
+
+/**
+ * Current value under a probe: the wire's value, or a node's first output (the input of a lamp).
+ * Returns undefined once the probed wire or node is gone.
+ */
+export const readProbe = (probe: Probe, nodes: CircuitNode[], wires: Wire[]): SignalValue | undefined =>
+  readProbeFrom(probe, id => nodes.find(n => n.id === id), id => wires.find(w => w.id === id));
+
+// Same as readProbe, with lookups for circuits that are indexed already
+const readProbeFrom = (
+  probe: Probe,
+  getNode: (id: string) => CircuitNode | undefined,
+  getWire: (id: string) => Wire | undefined
+): SignalValue | undefined => {
+  if (probe.kind === 'wire') {
+    const wire = getWire(probe.targetId);
+    if (!wire) return undefined;
+    return wire.value ?? (wire.state ? 1 : 0);
+  }
+  const node = getNode(probe.targetId);
+  if (!node) return undefined;
+  if (node.outputs.length > 0) return getOutputValue(node, 0);
+  return node.inputValues?.[0] ?? (node.inputs[0] ? 1 : 0);
+};
+
+const describeWire = (wire: Wire, nodes: CircuitNode[]): string => {
+  const labelOf = (id: string) => nodes.find(n => n.id === id)?.label ?? '?';
+  return `${labelOf(wire.sourceNodeId)} → ${labelOf(wire.targetNodeId)}`;
+};
+
+/**
+ * Adds a probe on a node or wire, starting its trace with the current value.
+ * Targets that are already probed are left alone.
+ */
+export const addProbe = (
+  capture: WaveformCapture,
+  kind: Probe['kind'],
+  targetId: string,
+  nodes: CircuitNode[],
+  wires: Wire[]
+): WaveformCapture => {
+  if (capture.probes.some(p => p.kind === kind && p.targetId === targetId)) return capture;
+
+  let probe: Probe;
+  if (kind === 'wire') {
+    const wire = wires.find(w => w.id === targetId);
+    if (!wire) return capture;
+    probe = { id: generateId(), kind, targetId, label: describeWire(wire, nodes), bitWidth: wire.bitWidth ?? 1 };
+  } else {
+    const node = nodes.find(n => n.id === targetId);
+    if (!node) return capture;
+    const bitWidth = node.outputs.length > 0 ? getOutputPinWidth(node, 0) : getBitWidth(node);
+    probe = { id: generateId(), kind, targetId, label: node.label, bitWidth };
+  }
+
+  const value = readProbe(probe, nodes, wires);
+  return {
+    ...capture,
+    probes: [...capture.probes, probe],
+    traces: { ...capture.traces, [probe.id]: value === undefined ? [] : [{ step: capture.step, value }] }
+  };
+};
+
+export const removeProbe = (capture: WaveformCapture, probeId: string): WaveformCapture => {
+  const { [probeId]: _removed, ...traces } = capture.traces;
+  return { ...capture, probes: capture.probes.filter(p => p.id !== probeId), traces };
+};
+
+/**
+ * Drops the recorded history; every trace restarts from the current values.
+ */
+export const clearSamples = (capture: WaveformCapture, nodes: CircuitNode[], wires: Wire[]): WaveformCapture => {
+  const traces: Record<string, WaveformSample[]> = {};
+  capture.probes.forEach(probe => {
+    const value = readProbe(probe, nodes, wires);
+    traces[probe.id] = value === undefined ? [] : [{ step: 0, value }];
+  });
+  return { ...capture, traces, startStep: 0, step: 0 };
+};
+
+// Probe values after one simulation step, by probe id
+export type ProbeReadings = Record<string, SignalValue | undefined>;
+
+/**
+ * Reads every probe, e.g. after a clock edge. Pass a simulation to look targets up in its index.
+ */
+export const readProbes = (
+  probes: Probe[],
+  circuit: { nodes: CircuitNode[]; wires: Wire[] } | CircuitSimulation
+): ProbeReadings => {
+  const readings: ProbeReadings = {};
+  probes.forEach(probe => {
+    readings[probe.id] = circuit instanceof CircuitSimulation
+      ? readProbeFrom(probe, id => circuit.getNode(id), id => circuit.getWire(id))
+      : readProbe(probe, circuit.nodes, circuit.wires);
+  });
+  return readings;
+};
+
+/**
+ * Advances the capture by one simulation step per set of readings.
+ * Only changes are stored; a probe whose target was deleted stops recording.
+ */
+export const recordSamples = (capture: WaveformCapture, steps: ProbeReadings[]): WaveformCapture => {
+  const step = capture.step + steps.length;
+  const startStep = Math.max(capture.startStep, step - MAX_WAVEFORM_STEPS);
+  const traces: Record<string, WaveformSample[]> = {};
+
+  capture.probes.forEach(probe => {
+    let samples = [...(capture.traces[probe.id] || [])];
+    steps.forEach((readings, i) => {
+      const value = readings[probe.id];
+      if (value !== undefined && samples[samples.length - 1]?.value !== value) {
+        samples.push({ step: capture.step + i + 1, value });
+      }
+    });
+    // Keep the sample that holds at the start of the window, moved onto it
+    if (samples.length > 1 && samples[1].step <= startStep) {
+      const first = samples.findIndex((s, i) => i === samples.length - 1 || samples[i + 1].step > startStep);
+      samples = [{ step: startStep, value: samples[first].value }, ...samples.slice(first + 1)];
+    }
+    traces[probe.id] = samples;
+  });
+
+  return { ...capture, traces, startStep, step };
+};
+
+/**
+ * Value of a trace at a step, or undefined before its first sample.
+ */
+export const valueAtStep = (samples: WaveformSample[], step: number): SignalValue | undefined => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  let found: SignalValue | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].step <= step) {
+      found = samples[mid].value;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
@@ -0,0 +1,531 @@
+import { CircuitNode, Wire, Position } from '../types';
+import { GRID_SIZE } from '../constants';
+import { getInputPinPosition, getOutputPinPosition } from './renderer';
+
+// Space kept free around component bodies
+const CLEARANCE = GRID_SIZE / 2;
+// Straight lead out of an output / into an input before a route may turn
+const STUB_LENGTH = GRID_SIZE;
+// Grid cells searched around the endpoints; widened once if no route fits
+const SEARCH_MARGIN = 6;
+const WIDE_SEARCH_MARGIN = 20;
+
+// Costs in world units, on top of the route length
+const BEND_COST = GRID_SIZE * 2;
+const CROSSING_COST = GRID_SIZE * 1.5;
+const OVERLAP_COST = GRID_SIZE * 6; // Running along a wire of another net
+
+// Upper bound on search states expanded for one wire
+const MAX_EXPANSIONS = 40000;
+
+const HORIZONTAL = 0;
+const VERTICAL = 1;
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Grid points already used by routed wires, with the net and direction of each use
+type Occupancy = Map<number, { net: string; direction: number }[]>;
+
+const pointKey = (x: number, y: number) => Math.round(x) * 1048576 + Math.round(y);
+
+const netOf = (wire: Wire) => `${wire.sourceNodeId}:${wire.sourcePinIndex}`;
+
+const obstacleOf = (node: CircuitNode): Rect => ({
+  left: node.position.x - CLEARANCE,
+  top: node.position.y - CLEARANCE,
+  right: node.position.x + node.width + CLEARANCE,
+  bottom: node.position.y + node.height + CLEARANCE
+});
+
+// Grid lines between min and max, plus the off-grid coordinates of the endpoints
+const axisCoordinates = (min: number, max: number, extra: number[]): number[] => {
+  const values = new Set(extra);
+  for (let v = Math.floor(min / GRID_SIZE) * GRID_SIZE; v <= max; v += GRID_SIZE) values.add(v);
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+// Binary min-heap of search states keyed by estimated total cost
+class StateHeap {
+  private states: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  push(state: number, score: number) {
+    let i = this.states.length;
+    this.states.push(state);
+    this.scores.push(score);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= score) break;
+      this.states[i] = this.states[parent];
+      this.scores[i] = this.scores[parent];
+      i = parent;
+    }
+    this.states[i] = state;
+    this.scores[i] = score;
+  }
+
+  pop(): number {
+    const top = this.states[0];
+    const state = this.states.pop()!;
+    const score = this.scores.pop()!;
+    const n = this.states.length;
+    if (n > 0) {
+      let i = 0;
+      while (true) {
+        const left = i * 2 + 1;
+        if (left >= n) break;
+        const child = left + 1 < n && this.scores[left + 1] < this.scores[left] ? left + 1 : left;
+        if (this.scores[child] >= score) break;
+        this.states[i] = this.states[child];
+        this.scores[i] = this.scores[child];
+        i = child;
+      }
+      this.states[i] = state;
+      this.scores[i] = score;
+    }
+    return top;
+  }
+}
+
+/**
+ * A* search for an orthogonal path from `from` to `to` over the grid, leaving `from` and
+ * entering `to` horizontally. Returns every grid point passed, or null if none was found.
+ */
+const searchPath = (
+  from: Position,
+  to: Position,
+  obstacles: Rect[],
+  occupancy: Occupancy,
+  net: string,
+  margin: number
+): Position[] | null => {
+  const pad = margin * GRID_SIZE;
+  const xs = axisCoordinates(Math.min(from.x, to.x) - pad, Math.max(from.x, to.x) + pad, [from.x, to.x]);
+  const ys = axisCoordinates(Math.min(from.y, to.y) - pad, Math.max(from.y, to.y) + pad, [from.y, to.y]);
+  const nx = xs.length;
+  const ny = ys.length;
+  const count = nx * ny;
+
+  // Points inside a padded component body are off limits, except the endpoints themselves
+  const area: Rect = { left: xs[0], top: ys[0], right: xs[nx - 1], bottom: ys[ny - 1] };
+  const nearby = obstacles.filter(r =>
+    r.right > area.left && r.left < area.right && r.bottom > area.top && r.top < area.bottom
+  );
+  const blocked = new Uint8Array(count);
+  nearby.forEach(r => {
+    for (let yi = 0; yi < ny; yi++) {
+      if (ys[yi] <= r.top || ys[yi] >= r.bottom) continue;
+      for (let xi = 0; xi < nx; xi++) {
+        if (xs[xi] > r.left && xs[xi] < r.right) blocked[yi * nx + xi] = 1;
+      }
+    }
+  });
+  const start = ys.indexOf(from.y) * nx + xs.indexOf(from.x);
+  const goal = ys.indexOf(to.y) * nx + xs.indexOf(to.x);
+  blocked[start] = 0;
+  blocked[goal] = 0;
+
+  // Extra cost of stepping onto a point another net already uses
+  const penalty = (x: number, y: number, direction: number): number => {
+    const uses = occupancy.get(pointKey(x, y));
+    if (!uses) return 0;
+    let cost = 0;
+    uses.forEach(use => {
+      if (use.net === net) return;
+      cost += use.direction === direction ? OVERLAP_COST : CROSSING_COST;
+    });
+    return cost;
+  };
+
+  // A state is a grid point and the direction it was entered in
+  const cost = new Float64Array(count * 2).fill(Infinity);
+  const previous = new Int32Array(count * 2).fill(-1);
+  const closed = new Uint8Array(count * 2);
+  // Remaining distance plus the bends still needed to end up level with `to`, heading sideways
+  const heuristic = (index: number, direction: number) => {
+    if (index === goal) return 0;
+    const dy = Math.abs(ys[Math.floor(index / nx)] - to.y);
+    const bends = dy === 0 ? direction : 2 - direction;
+    return Math.abs(xs[index % nx] - to.x) + dy + bends * BEND_COST;
+  };
+
+  const heap = new StateHeap();
+  const first = start * 2 + HORIZONTAL;
+  cost[first] = 0;
+  heap.push(first, heuristic(start, HORIZONTAL));
+
+  let expansions = 0;
+  let reached = -1;
+  while (heap.size > 0 && expansions < MAX_EXPANSIONS) {
+    const state = heap.pop();
+    if (closed[state]) continue;
+    closed[state] = 1;
+    expansions++;
+
+    const index = state >> 1;
+    if (index === goal) {
+      reached = state;
+      break;
+    }
+    const direction = state & 1;
+    const xi = index % nx;
+    const yi = Math.floor(index / nx);
+
+    for (let move = 0; move < 4; move++) {
+      const nxi = move === 0 ? xi - 1 : move === 1 ? xi + 1 : xi;
+      const nyi = move === 2 ? yi - 1 : move === 3 ? yi + 1 : yi;
+      if (nxi < 0 || nxi >= nx || nyi < 0 || nyi >= ny) continue;
+      const next = nyi * nx + nxi;
+      if (blocked[next]) continue;
+
+      const nextDirection = move < 2 ? HORIZONTAL : VERTICAL;
+      let step = Math.abs(xs[nxi] - xs[xi]) + Math.abs(ys[nyi] - ys[yi]);
+      if (occupancy.size > 0) step += penalty(xs[nxi], ys[nyi], nextDirection);
+      if (nextDirection !== direction) step += BEND_COST;
+      // The route must straighten out before entering the input pin
+      if (next === goal && nextDirection !== HORIZONTAL) step += BEND_COST;
+
+      const nextState = next * 2 + nextDirection;
+      const total = cost[state] + step;
+      if (total < cost[nextState]) {
+        cost[nextState] = total;
+        previous[nextState] = state;
+        heap.push(nextState, total + heuristic(next, nextDirection));
+      }
+    }
+  }
+  if (reached < 0) return null;
+
+  const path: Position[] = [];
+  for (let state = reached; state >= 0; state = previous[state]) {
+    const index = state >> 1;
+    path.push({ x: xs[index % nx], y: ys[Math.floor(index / nx)] });
+  }
+  return path.reverse();
+};
+
+// Drops points in the middle of straight runs
+const simplify = (points: Position[]): Position[] =>
+  points.filter((p, i) => {
+    if (i === 0 || i === points.length - 1) return true;
+    const a = points[i - 1];
+    const b = points[i + 1];
+    return !((a.x === p.x && p.x === b.x) || (a.y === p.y && p.y === b.y));
+  });
+
+// Marks the points of a dense path as used by a net, in the direction it passes them
+const occupy = (occupancy: Occupancy, points: Position[], net: string) => {
+  points.forEach((p, i) => {
+    const directions = new Set<number>();
+    [points[i - 1], points[i + 1]].forEach(q => {
+      if (q) directions.add(q.y === p.y ? HORIZONTAL : VERTICAL);
+    });
+    const key = pointKey(p.x, p.y);
+    const uses = occupancy.get(key) ?? [];
+    directions.forEach(direction => uses.push({ net, direction }));
+    occupancy.set(key, uses);
+  });
+};
+
+// Region a search with this margin covers; obstacles outside it cannot change the route
+const searchArea = (from: Position, to: Position, margin: number): Rect => {
+  const pad = (margin + 1) * GRID_SIZE;
+  return {
+    left: Math.min(from.x, to.x) - pad,
+    top: Math.min(from.y, to.y) - pad,
+    right: Math.max(from.x, to.x) + pad,
+    bottom: Math.max(from.y, to.y) + pad
+  };
+};
+
+// A routed wire, kept between layouts while its pins and the obstacles around it stay put
+interface Route {
+  net: string;
+  start: Position;
+  end: Position;
+  area: Rect;
+  dense: Position[] | null; // Grid points passed, null for the fallback shape
+  points: Position[];
+}
+
+/**
+ * Orthogonal path from an output pin to an input pin that keeps clear of component bodies,
+ * preferring few bends and avoiding other nets' wires. Falls back to a plain step shape when
+ * no route exists (e.g. the pins are boxed in).
+ */
+const routeWire = (
+  start: Position,
+  end: Position,
+  obstacles: Rect[],
+  occupancy: Occupancy,
+  net: string
+): Route => {
+  const from = { x: start.x + STUB_LENGTH, y: start.y };
+  const to = { x: end.x - STUB_LENGTH, y: end.y };
+
+  let margin = SEARCH_MARGIN;
+  let dense = searchPath(from, to, obstacles, occupancy, net, margin);
+  if (!dense) {
+    margin = WIDE_SEARCH_MARGIN;
+    dense = searchPath(from, to, obstacles, occupancy, net, margin);
+  }
+  const area = searchArea(from, to, margin);
+  if (!dense) {
+    const midX = (start.x + end.x) / 2;
+    return { net, start, end, area, dense, points: simplify([start, { x: midX, y: start.y }, { x: midX, y: end.y }, end]) };
+  }
+
+  occupy(occupancy, dense, net);
+  return { net, start, end, area, dense, points: simplify([start, ...dense, end]) };
+};
+
+export interface WirePath {
+  points: Position[]; // World-space polyline from the wire's start to its input pin
+  curved: boolean; // Drawn as a bezier between the first and last point instead
+}
+
+export interface WireLayout {
+  paths: Map<string, WirePath>;
+  junctions: { wireId: string; position: Position }[]; // Where branch wires leave their parent
+}
+
+// Control points of a wire's bezier, leaving and entering horizontally
+export const bezierControls = (start: Position, end: Position): [Position, Position] => {
+  const cpDist = Math.abs(end.x - start.x) * 0.5;
+  return [{ x: start.x + cpDist, y: start.y }, { x: end.x - cpDist, y: end.y }];
+};
+
+const bezierPoint = (start: Position, end: Position, t: number): Position => {
+  const [c1, c2] = bezierControls(start, end);
+  const u = 1 - t;
+  return {
+    x: u ** 3 * start.x + 3 * u ** 2 * t * c1.x + 3 * u * t ** 2 * c2.x + t ** 3 * end.x,
+    y: u ** 3 * start.y + 3 * u ** 2 * t * c1.y + 3 * u * t ** 2 * c2.y + t ** 3 * end.y
+  };
+};
+
+const segmentLengths = (points: Position[]) =>
+  points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+
+/**
+ * Point at position `t` (0 to 1) along a wire: the bezier parameter of a curve, or the fraction
+ * of a polyline's length.
+ */
+export const pointOnWire = (path: WirePath, t: number): Position => {
+  const { points } = path;
+  if (path.curved) return bezierPoint(points[0], points[points.length - 1], t);
+
+  const lengths = segmentLengths(points);
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) * t;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const f = remaining / lengths[i];
+      return { x: points[i].x + (points[i + 1].x - points[i].x) * f, y: points[i].y + (points[i + 1].y - points[i].y) * f };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+};
+
+// Closest point to p on segment a-b, as a fraction of the segment
+const projectOnSegment = (p: Position, a: Position, b: Position): number => {
+  const l2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (l2 === 0) return 0;
+  return Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2));
+};
+
+// Segment of a polyline closest to p, and where on it
+const nearestSegment = (points: Position[], p: Position): { index: number; f: number } => {
+  let best = { index: 0, f: 0, d: Infinity };
+  for (let i = 1; i < points.length; i++) {
+    const f = projectOnSegment(p, points[i - 1], points[i]);
+    const d = Math.hypot(points[i - 1].x + (points[i].x - points[i - 1].x) * f - p.x, points[i - 1].y + (points[i].y - points[i - 1].y) * f - p.y);
+    if (d < best.d) best = { index: i - 1, f, d };
+  }
+  return best;
+};
+
+/**
+ * Position along a wire (as used by pointOnWire) closest to a world point.
+ */
+export const wireParameterAt = (path: WirePath, p: Position): number => {
+  const { points } = path;
+  if (path.curved) {
+    const SAMPLES = 64;
+    let best = { t: 0, d: Infinity };
+    for (let i = 0; i <= SAMPLES; i++) {
+      const q = bezierPoint(points[0], points[points.length - 1], i / SAMPLES);
+      const d = Math.hypot(q.x - p.x, q.y - p.y);
+      if (d < best.d) best = { t: i / SAMPLES, d };
+    }
+    return best.t;
+  }
+
+  const lengths = segmentLengths(points);
+  const total = lengths.reduce((sum, l) => sum + l, 0);
+  if (total === 0) return 0;
+  const { index, f } = nearestSegment(points, p);
+  return (lengths.slice(0, index).reduce((sum, l) => sum + l, 0) + lengths[index] * f) / total;
+};
+
+/**
+ * Snaps a dragged bend point to the grid, or level with a neighbouring point when close,
+ * so runs to off-grid pins stay straight.
+ */
+export const snapWaypoint = (p: Position, neighbours: Position[]): Position => {
+  const align = (value: number, axis: 'x' | 'y') => {
+    const level = neighbours.find(n => Math.abs(n[axis] - value) < GRID_SIZE / 2);
+    return level ? level[axis] : Math.round(value / GRID_SIZE) * GRID_SIZE;
+  };
+  return { x: align(p.x, 'x'), y: align(p.y, 'y') };
+};
+
+/**
+ * Bend points after adding one at `p`. A wire without bend points keeps the corners of its
+ * current shape, so the new point only changes the shape locally.
+ */
+export const insertWaypoint = (path: WirePath, p: Position): Position[] => {
+  const { points } = path;
+  const corners = path.curved ? [points[0], points[points.length - 1]] : points;
+  const { index } = nearestSegment(corners, p);
+  const waypoints = corners.slice(1, -1);
+  const snapped = snapWaypoint(p, [corners[index], corners[index + 1]]);
+  return [...waypoints.slice(0, index), snapped, ...waypoints.slice(index)];
+};
+
+/**
+ * Fixes up wires copied along with their nodes: bend points move with the copy and branches
+ * point at the copy of their parent (`idMap`: original wire id -> copy id). Branches whose
+ * parent was not copied start from the source pin again.
+ */
+export const relinkWireCopies = (copies: Wire[], idMap: Map<string, string>, offset: Position): Wire[] =>
+  copies.map(w => {
+    const { junction, ...wire } = w;
+    const parentId = junction && idMap.get(junction.wireId);
+    return {
+      ...wire,
+      ...(w.waypoints ? { waypoints: w.waypoints.map(p => ({ x: p.x + offset.x, y: p.y + offset.y })) } : {}),
+      ...(parentId ? { junction: { wireId: parentId, t: junction!.t } } : {})
+    };
+  });
+
+/**
+ * Layout state kept between calls by whoever draws the wires, one per canvas.
+ */
+export interface WireLayoutCache {
+  nodes?: CircuitNode[];
+  wires?: Wire[];
+  layout?: WireLayout;
+  obstacles: Map<string, Rect>; // Padded body of every node, by id
+  routes: Map<string, Route>; // Routed wires, by id
+}
+
+export const createWireLayoutCache = (): WireLayoutCache => ({ obstacles: new Map(), routes: new Map() });
+
+const samePoint = (a: Position, b: Position) => a.x === b.x && a.y === b.y;
+
+const sameRect = (a: Rect, b: Rect) =>
+  a.left === b.left && a.top === b.top && a.right === b.right && a.bottom === b.bottom;
+
+const overlaps = (a: Rect, b: Rect) => a.right > b.left && a.left < b.right && a.bottom > b.top && a.top < b.bottom;
+
+/**
+ * Shape of every wire, by id, plus the junction points where branches leave their parent.
+ * Branches are laid out after their parent; 'routed' wires are routed one after another so
+ * later ones steer around earlier ones. A routed wire keeps its path from the cache until one of
+ * its pins moves or a component moves in or out of the area it was routed through, so this is
+ * cheap to call every frame.
+ */
+export const getWireLayout = (nodes: CircuitNode[], wires: Wire[], cache: WireLayoutCache): WireLayout => {
+  if (cache.layout && cache.nodes === nodes && cache.wires === wires) return cache.layout;
+
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const wireMap = new Map(wires.map(w => [w.id, w]));
+
+  // Bodies that appeared, moved, resized or went away since the last layout, before and after
+  const obstacleMap = new Map<string, Rect>();
+  const moved: Rect[] = [];
+  nodes.forEach(n => {
+    const rect = obstacleOf(n);
+    const before = cache.obstacles.get(n.id);
+    if (!before || !sameRect(before, rect)) moved.push(rect);
+    if (before && !sameRect(before, rect)) moved.push(before);
+    obstacleMap.set(n.id, rect);
+  });
+  cache.obstacles.forEach((rect, id) => {
+    if (!obstacleMap.has(id)) moved.push(rect);
+  });
+  const obstacles = Array.from(obstacleMap.values());
+
+  const occupancy: Occupancy = new Map();
+  const routes = new Map<string, Route>();
+  const layout: WireLayout = { paths: new Map(), junctions: [] };
+  const pending = new Set<string>(); // Guards against branch cycles
+
+  const route = (wire: Wire, start: Position, end: Position): Route => {
+    const net = netOf(wire);
+    const known = cache.routes.get(wire.id);
+    if (
+      known && known.net === net && samePoint(known.start, start) && samePoint(known.end, end)
+      && !moved.some(r => overlaps(r, known.area))
+    ) {
+      if (known.dense) occupy(occupancy, known.dense, net);
+      return known;
+    }
+    return routeWire(start, end, obstacles, occupancy, net);
+  };
+
+  const place = (wire: Wire): WirePath | undefined => {
+    const known = layout.paths.get(wire.id);
+    if (known || pending.has(wire.id)) return known;
+    const source = nodeMap.get(wire.sourceNodeId);
+    const target = nodeMap.get(wire.targetNodeId);
+    if (!source || !target) return undefined;
+    pending.add(wire.id);
+
+    // A branch starts on its parent, which must carry the same net
+    let start = getOutputPinPosition(source, wire.sourcePinIndex);
+    const parent = wire.junction && wireMap.get(wire.junction.wireId);
+    if (parent && netOf(parent) === netOf(wire)) {
+      const parentPath = place(parent);
+      if (parentPath) {
+        start = pointOnWire(parentPath, wire.junction!.t);
+        layout.junctions.push({ wireId: wire.id, position: start });
+      }
+    }
+    const end = getInputPinPosition(target, wire.targetPinIndex);
+
+    let path: WirePath;
+    if (wire.waypoints?.length) {
+      path = { points: [start, ...wire.waypoints, end], curved: false };
+    } else if (wire.curveType === 'routed') {
+      const routed = route(wire, start, end);
+      routes.set(wire.id, routed);
+      path = { points: routed.points, curved: false };
+    } else if (wire.curveType === 'straight') {
+      path = { points: [start, end], curved: false };
+    } else if (wire.curveType === 'step') {
+      const midX = (start.x + end.x) / 2;
+      path = { points: [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end], curved: false };
+    } else {
+      path = { points: [start, end], curved: true };
+    }
+
+    layout.paths.set(wire.id, path);
+    pending.delete(wire.id);
+    return path;
+  };
+  wires.forEach(place);
+
+  Object.assign(cache, { nodes, wires, layout, obstacles: obstacleMap, routes });
+  return layout;
+};
@@ -7,9 +7,22 @@ export enum GateType {
   XOR = 'XOR',
   INPUT_SWITCH = 'INPUT_SWITCH',
   OUTPUT_LAMP = 'OUTPUT_LAMP',
-  CLOCK = 'CLOCK'
+  CLOCK = 'CLOCK',
+  D_FLIP_FLOP = 'D_FLIP_FLOP',
+  JK_FLIP_FLOP = 'JK_FLIP_FLOP',
+  T_FLIP_FLOP = 'T_FLIP_FLOP',
+  SR_FLIP_FLOP = 'SR_FLIP_FLOP',
+  D_LATCH = 'D_LATCH',
+  SR_LATCH = 'SR_LATCH',
+  SUBCIRCUIT = 'SUBCIRCUIT',
+  SPLITTER = 'SPLITTER',
+  MERGER = 'MERGER',
+  TRI_STATE = 'TRI_STATE'
 }
 
+// Value on a pin or wire: a bit / bus value, unknown (X) or high impedance (Z)
+export type SignalValue = number | 'X' | 'Z';
+
 export interface Position {
   x: number;
   y: number;
@@ -25,15 +38,33 @@ export interface CircuitNode {
   id: string;
   type: GateType;
   position: Position;
-  state: boolean; // Main output state (High/Low)
+  state: boolean; // Main output state (High/Low). Drives sources, mirrors outputs[0] otherwise
+  outputs: boolean[]; // Per-pin output states (e.g. Q / Q̅). Empty for sinks like lamps
   inputs: boolean[]; // Current state of inputs
+  bitWidth?: number; // Width of the node's bus pins (default 1)
+  inputValues?: SignalValue[]; // Full value per input pin, maintained by the engine (`inputs` holds "is High")
+  outputValues?: SignalValue[]; // Full value per output pin, maintained by the engine
+  memory?: boolean[]; // Internal storage of sequential components ([Q, previous CLK])
+  componentId?: string; // SUBCIRCUIT: id of the ComponentDefinition it instantiates
+  internal?: SubcircuitState; // SUBCIRCUIT: live state of the nested circuit
   width: number;
   height: number;
   label: string;
   color?: string; // Optional custom color (e.g. for LEDs/Wires)
+  delay?: number; // Propagation delay in simulation time units. Defaults to the component's config.
+  frequency?: number; // CLOCK: cycles per second at 1x simulation speed
+  dutyCycle?: number; // CLOCK: percentage of the period spent High
+  phase?: number; // CLOCK: shift of the waveform in degrees
 }
 
-export type WireCurveType = 'bezier' | 'straight' | 'step';
+// 'routed' wires follow an orthogonal path around components, recomputed as the layout changes
+export type WireCurveType = 'bezier' | 'straight' | 'step' | 'routed';
+
+// Where a branch leaves another wire of the same net
+export interface WireJunction {
+  wireId: string; // Wire branched from
+  t: number; // Position along that wire's path, 0 at its start and 1 at its end
+}
 
 export interface Wire {
   id: string;
@@ -41,9 +72,26 @@ export interface Wire {
   sourcePinIndex: number; // usually 0 for single output gates
   targetNodeId: string;
   targetPinIndex: number;
-  state: boolean;
+  state: boolean; // High if any bit is set
+  bitWidth?: number; // Bus width, taken from the source pin (default 1)
+  value?: SignalValue; // Full value driven onto the wire (bus value, X or Z)
   curveType?: WireCurveType;
   color?: string;
+  waypoints?: Position[]; // User-placed bend points (world coordinates); replace the curve style's shape
+  junction?: WireJunction; // Branch wires start on another wire instead of at the source pin
+}
+
+export interface SubcircuitState {
+  nodes: CircuitNode[];
+  wires: Wire[];
+  inputNodeIds: string[]; // INPUT_SWITCH nodes driven by the block's input pins, in pin order
+  outputNodeIds: string[]; // OUTPUT_LAMP nodes read by the block's output pins, in pin order
+}
+
+// User-defined component, created from a group of nodes
+export interface ComponentDefinition extends SubcircuitState {
+  id: string;
+  name: string;
 }
 
 export interface Camera {
@@ -58,7 +106,8 @@ export enum InteractionMode {
   DRAGGING_NODE = 'DRAGGING_NODE',
   WIRING = 'WIRING',
   PLACING = 'PLACING',
-  SELECTING = 'SELECTING'
+  SELECTING = 'SELECTING',
+  DRAGGING_WAYPOINT = 'DRAGGING_WAYPOINT'
 }
 
 export interface InteractionState {
@@ -68,8 +117,30 @@ export interface InteractionState {
   hoveredPin: { nodeId: string; type: 'input' | 'output'; index: number } | null;
   dragStart: Position; // Screen coordinates
   dragOffset: Position; // Offset from node center (Legacy/Single) or unused in multi-drag
-  activeWireStart: { nodeId: string; pinIndex: number } | null;
+  activeWireStart: { nodeId: string; pinIndex: number; junction?: WireJunction } | null;
+  activeWaypoint: { wireId: string; index: number } | null; // Bend point being dragged
   placingType: GateType | null;
+  placingComponentId: string | null; // Definition to place when placingType is SUBCIRCUIT
+}
+
+export interface FeedbackLoop {
+  nodeIds: string[]; // Strongly connected component of the node graph
+  wireIds: string[]; // Wires internal to the component
+  oscillating: boolean; // True if any node of the loop failed to settle
+}
+
+export interface CircuitDiagnostics {
+  unstableNodeIds: string[];
+  unstableWireIds: string[];
+  contentionWireIds: string[]; // Wires driving opposite values into the same input
+  loops: FeedbackLoop[];
+}
+
+// One row of a test bench: switches to set, clock edges to run, then lamp values to check
+export interface TestVector {
+  inputs: Record<string, number>; // Switch label -> 0 / 1; unlisted switches keep their value
+  expected: Record<string, SignalValue>; // Lamp label -> value; unlisted lamps are not checked
+  steps?: number; // Clock edges to advance before checking (default 0)
 }
 
 export interface ProjectData {
@@ -77,4 +148,17 @@ export interface ProjectData {
   nodes: CircuitNode[];
   wires: Wire[];
   camera: Camera;
+  components?: ComponentDefinition[];
+  testVectors?: TestVector[];
+}
+
+// A project kept in the browser's IndexedDB
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number; // Epoch ms of the last autosave
+}
+
+export interface StoredProject extends ProjectSummary {
+  data: ProjectData;
 }
\ No newline at end of file